@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { adminDb } from '@/lib/firebase-admin';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import { renderTransformedImage } from '@/lib/photo-transforms';
+import { normalizeTransform } from '@/lib/transforms';
 
 export async function GET(
   _request: NextRequest,
@@ -29,10 +31,26 @@ export async function GET(
       );
     }
 
-    // Redirect to the Firebase Storage URL
-    return NextResponse.redirect(aiOutputUrl);
+    // Outputs shown as stored are served straight from Firebase Storage
+    const transform = normalizeTransform(photoData?.outputTransform);
+    if (!transform || !photoData?.aiOutputStoragePath) {
+      return NextResponse.redirect(aiOutputUrl);
+    }
+
+    const [original] = await adminBucket.file(photoData.aiOutputStoragePath).download();
+    const { data, contentType } = await renderTransformedImage(original, transform);
+    const extension = contentType.split('/')[1].replace('jpeg', 'jpg');
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${photoId}.${extension}"`,
+        // The operator can change the transform at any time
+        'Cache-Control': 'no-store',
+      },
+    });
   } catch (error) {
-    console.error('Download redirect error:', error);
+    console.error('Download error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal server error' },
       { status: 500 }
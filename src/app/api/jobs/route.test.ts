@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/jobs/route';
+import { adminDb } from '@/lib/firebase-admin';
+import type { FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/firestore', async () => {
+  const { FieldValue } = await import('@/test/firestore');
+  return { FieldValue };
+});
+vi.mock('firebase-admin/storage', async () => {
+  const { getDownloadURL } = await import('@/test/firestore');
+  return { getDownloadURL };
+});
+vi.mock('@/lib/generation-queue', () => ({
+  processGenerationQueue: vi.fn(),
+  bumpGenerationJob: vi.fn(),
+}));
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
+const db = adminDb as unknown as FakeFirestore;
+
+const SESSION_ID = 'session-1';
+const SOURCE_IDS = ['photo-a', 'photo-b'];
+
+function compose(body: Record<string, unknown>) {
+  return POST(
+    new NextRequest('https://stand.example.com/api/jobs', {
+      method: 'POST',
+      body: JSON.stringify({
+        action: 'compose',
+        sessionId: SESSION_ID,
+        sourcePhotoIds: SOURCE_IDS,
+        prompt: 'Both people at the beach',
+        ...body,
+      }),
+    })
+  );
+}
+
+function photoIds() {
+  return db.list(`sessions/${SESSION_ID}/photos`).map((photo) => photo.id);
+}
+
+describe('POST /api/jobs compose', () => {
+  beforeEach(() => {
+    db.docs.clear();
+    db.set(`sessions/${SESSION_ID}`, {});
+    for (const id of SOURCE_IDS) {
+      db.set(`sessions/${SESSION_ID}/photos/${id}`, { url: `https://example.com/${id}.jpg` });
+    }
+  });
+
+  it('creates the composite and queues its job', async () => {
+    const response = await compose({});
+
+    expect(response.status).toBe(200);
+    const { jobId, photoId } = await response.json();
+    expect(db.get(`sessions/${SESSION_ID}/photos/${photoId}`)).toMatchObject({
+      sourcePhotoIds: SOURCE_IDS,
+    });
+    expect(db.get(`sessions/${SESSION_ID}/generationJobs/${jobId}`)).toMatchObject({
+      photoId,
+      status: 'queued',
+    });
+  });
+
+  it('removes the composite when the preset does not exist', async () => {
+    const response = await compose({ presetId: 'missing' });
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Preset not found' });
+    expect(photoIds()).toEqual(SOURCE_IDS);
+  });
+
+  it('removes the composite when the preset settings are invalid', async () => {
+    db.set('presets/preset-1', { name: 'Beach', version: 1, settings: { max_images: 15 } });
+
+    const response = await compose({ presetId: 'preset-1' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ field: 'preset.settings.max_images' });
+    expect(photoIds()).toEqual(SOURCE_IDS);
+  });
+
+  it('removes the composite and its refused attempt when the prompt is refused', async () => {
+    const response = await compose({ prompt: 'Both people at https://example.com' });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'prompt_rejected' });
+    expect(photoIds()).toEqual(SOURCE_IDS);
+    expect(db.list(`sessions/${SESSION_ID}/aiResponses`)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,342 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import {
+  createGenerationJob,
+  createCompositePhoto,
+  deleteCompositePhoto,
+  createComparison,
+  MAX_COMPARISON_ENTRIES,
+} from '@/lib/generation-jobs';
+import { processGenerationQueue, bumpGenerationJob } from '@/lib/generation-queue';
+import { getEnabledModel, DEFAULT_MODEL_ID } from '@/lib/models';
+import {
+  validateModelSettings,
+  isOwnStorageUrl,
+  RequestValidationError,
+} from '@/lib/replicate-validation';
+import { ModerationError } from '@/lib/moderation';
+import { checkBudget } from '@/lib/generation-usage';
+import { GenerationError } from '@/lib/generation-errors';
+import type { ComparisonEntry } from '@/types';
+
+// Jobs keep running after the response is sent, until the prediction finishes
+export const maxDuration = 300;
+
+/**
+ * Refuses a second run on a photo while auto mode is still working on it
+ */
+async function autoProcessingResponse(
+  sessionId: string,
+  autoJobId?: string
+): Promise<NextResponse | null> {
+  if (!autoJobId) {
+    return null;
+  }
+
+  const autoJob = await adminDb
+    .collection('sessions')
+    .doc(sessionId)
+    .collection('generationJobs')
+    .doc(autoJobId)
+    .get();
+  const autoJobStatus = autoJob.get('status');
+  if (autoJobStatus !== 'queued' && autoJobStatus !== 'processing') {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      error: 'This photo is already being processed by auto mode',
+      code: 'auto_processing',
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Starts an A/B comparison: one job per prompt/model/settings entry, all on
+ * the same photo
+ */
+async function handleCompare(
+  sessionId: string,
+  photoId: unknown,
+  entries: unknown
+): Promise<NextResponse> {
+  if (typeof photoId !== 'string' || !photoId) {
+    return NextResponse.json(
+      { error: 'Photo ID is required' },
+      { status: 400 }
+    );
+  }
+
+  if (
+    !Array.isArray(entries) ||
+    entries.length < 2 ||
+    entries.length > MAX_COMPARISON_ENTRIES
+  ) {
+    return NextResponse.json(
+      {
+        error: `Compare between 2 and ${MAX_COMPARISON_ENTRIES} combinations`,
+        code: 'invalid_field',
+        field: 'entries',
+      },
+      { status: 400 }
+    );
+  }
+
+  const validatedEntries: Omit<ComparisonEntry, 'jobId' | 'error'>[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const field = `entries.${index}`;
+    if (typeof entry?.prompt !== 'string' || !entry.prompt.trim()) {
+      return NextResponse.json(
+        {
+          error: 'Every combination needs a prompt',
+          code: 'missing_field',
+          field: `${field}.prompt`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const model = getEnabledModel(entry.modelId || DEFAULT_MODEL_ID);
+    if (!model) {
+      return NextResponse.json(
+        {
+          error: 'This model is not available',
+          code: 'model_not_allowed',
+          field: `${field}.modelId`,
+        },
+        { status: 403 }
+      );
+    }
+
+    validatedEntries.push({
+      label:
+        typeof entry.label === 'string' && entry.label.trim()
+          ? entry.label.trim().slice(0, 40)
+          : String.fromCharCode(65 + index),
+      prompt: entry.prompt,
+      ...(typeof entry.presetId === 'string' && entry.presetId
+        ? { presetId: entry.presetId }
+        : {}),
+      modelId: model.id,
+      settings: validateModelSettings(model, entry.settings),
+    });
+  }
+
+  await checkBudget(sessionId);
+
+  const photoSnapshot = await adminDb
+    .collection('sessions')
+    .doc(sessionId)
+    .collection('photos')
+    .doc(photoId)
+    .get();
+  if (!photoSnapshot.exists) {
+    return NextResponse.json(
+      { error: 'Photo not found' },
+      { status: 404 }
+    );
+  }
+
+  const conflict = await autoProcessingResponse(sessionId, photoSnapshot.get('autoJobId'));
+  if (conflict) {
+    return conflict;
+  }
+
+  const comparison = await createComparison(sessionId, photoId, validatedEntries);
+
+  after(() => processGenerationQueue(sessionId));
+
+  return NextResponse.json(comparison);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      action = 'create',
+      sessionId,
+      jobId,
+      photoId,
+      sourcePhotoIds,
+      prompt,
+      presetId,
+      variantCount,
+      modelId = DEFAULT_MODEL_ID,
+      settings,
+      parentResponseId,
+      maskUrl,
+    } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Handle moving a queued job to the front of the queue
+    if (action === 'bump') {
+      if (!jobId) {
+        return NextResponse.json(
+          { error: 'Job ID is required' },
+          { status: 400 }
+        );
+      }
+
+      await bumpGenerationJob(sessionId, jobId);
+      return NextResponse.json({ bumped: true });
+    }
+
+    if (action === 'compare') {
+      return await handleCompare(sessionId, photoId, body.entries);
+    }
+
+    if (action !== 'create' && action !== 'compose') {
+      return NextResponse.json(
+        { error: 'Invalid action. Use "create", "compose", "compare" or "bump"' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'create' && !photoId) {
+      return NextResponse.json(
+        { error: 'Photo ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      return NextResponse.json(
+        { error: 'Prompt is required' },
+        { status: 400 }
+      );
+    }
+
+    const model = getEnabledModel(modelId);
+    if (!model) {
+      return NextResponse.json(
+        { error: 'This model is not available', code: 'model_not_allowed', field: 'modelId' },
+        { status: 403 }
+      );
+    }
+    const validatedSettings = validateModelSettings(model, settings);
+
+    // Refuse up front rather than queueing jobs that would fail
+    await checkBudget(sessionId);
+
+    if (
+      maskUrl !== undefined &&
+      (typeof maskUrl !== 'string' || !isOwnStorageUrl(maskUrl, adminBucket.name))
+    ) {
+      return NextResponse.json(
+        {
+          error: 'Masks must come from this app\'s Firebase Storage bucket',
+          code: 'image_not_allowed',
+          field: 'maskUrl',
+        },
+        { status: 403 }
+      );
+    }
+
+    let targetPhotoId = photoId;
+    if (action === 'compose') {
+      // Composites need at least two photos and no more than the model accepts
+      const imageRule = model.inputs.image;
+      const maxPhotos = imageRule?.type === 'imageList' ? imageRule.maxItems : 1;
+      if (
+        !Array.isArray(sourcePhotoIds) ||
+        sourcePhotoIds.length < 2 ||
+        sourcePhotoIds.length > maxPhotos ||
+        sourcePhotoIds.some((id) => typeof id !== 'string' || !id) ||
+        new Set(sourcePhotoIds).size !== sourcePhotoIds.length
+      ) {
+        return NextResponse.json(
+          {
+            error: `Select between 2 and ${maxPhotos} different photos`,
+            code: 'invalid_field',
+            field: 'sourcePhotoIds',
+          },
+          { status: 400 }
+        );
+      }
+
+      targetPhotoId = await createCompositePhoto(sessionId, sourcePhotoIds);
+    } else {
+      const photoSnapshot = await adminDb
+        .collection('sessions')
+        .doc(sessionId)
+        .collection('photos')
+        .doc(photoId)
+        .get();
+
+      if (!photoSnapshot.exists) {
+        return NextResponse.json(
+          { error: 'Photo not found' },
+          { status: 404 }
+        );
+      }
+
+      const conflict = await autoProcessingResponse(sessionId, photoSnapshot.get('autoJobId'));
+      if (conflict) {
+        return conflict;
+      }
+    }
+
+    let newJobId: string;
+    try {
+      newJobId = await createGenerationJob({
+        sessionId,
+        photoId: targetPhotoId,
+        prompt,
+        presetId,
+        variantCount: Number(variantCount) || 1,
+        modelId: model.id,
+        settings: validatedSettings,
+        parentResponseId: action === 'create' ? parentResponseId : undefined,
+        maskUrl: action === 'create' ? maskUrl : undefined,
+      });
+    } catch (error) {
+      // A composite only exists for its job; don't leave an empty one behind
+      if (action === 'compose') {
+        await deleteCompositePhoto(sessionId, targetPhotoId).catch((err) =>
+          console.error('Failed to delete composite:', err)
+        );
+      }
+      throw error;
+    }
+
+    // Work the queue after responding so closing the dashboard doesn't stop it
+    after(() => processGenerationQueue(sessionId));
+
+    return NextResponse.json({ jobId: newJobId, photoId: targetPhotoId });
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, field: error.field },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof GenerationError) {
+      return NextResponse.json(
+        { error: error.message, errorType: error.type },
+        { status: error.status || 500 }
+      );
+    }
+
+    if (error instanceof ModerationError) {
+      return NextResponse.json(
+        { error: error.message, code: 'prompt_rejected', rule: error.rule },
+        { status: 422 }
+      );
+    }
+
+    console.error('Generation job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import { createAutoProcessJob } from '@/lib/generation-jobs';
+import { processGenerationQueue } from '@/lib/generation-queue';
+import { isOwnStorageUrl } from '@/lib/replicate-validation';
+import { PHOTO_TRANSFORM_OPERATIONS, transformPhotoInput } from '@/lib/photo-transforms';
+
+// Auto mode jobs keep running after the response is sent
+export const maxDuration = 300;
+
+/**
+ * Registers a photo uploaded from the mobile page. When the session is in
+ * auto mode, its generation is queued here, on the server, so it runs
+ * whether or not a dashboard is open.
+ *
+ * With action "transform", rotates or flips a photo's stored input instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { action = 'register', sessionId, photoId, operation, url, storagePath } =
+      await request.json();
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'transform') {
+      if (!photoId) {
+        return NextResponse.json(
+          { error: 'Photo ID is required' },
+          { status: 400 }
+        );
+      }
+      if (!PHOTO_TRANSFORM_OPERATIONS.includes(operation)) {
+        return NextResponse.json(
+          { error: `Invalid operation. Use ${PHOTO_TRANSFORM_OPERATIONS.map((name) => `"${name}"`).join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const input = await transformPhotoInput(sessionId, photoId, operation);
+      return NextResponse.json(input);
+    }
+
+    if (action !== 'register') {
+      return NextResponse.json(
+        { error: 'Invalid action. Use "register" or "transform"' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      typeof url !== 'string' ||
+      typeof storagePath !== 'string' ||
+      !isOwnStorageUrl(url, adminBucket.name) ||
+      !storagePath.startsWith(`stant_images/input/${sessionId}/`)
+    ) {
+      return NextResponse.json(
+        { error: 'Photos must be uploaded to this session\'s input folder' },
+        { status: 403 }
+      );
+    }
+
+    const photoRef = await adminDb
+      .collection('sessions')
+      .doc(sessionId)
+      .collection('photos')
+      .add({
+        url,
+        storagePath,
+        uploadedAt: FieldValue.serverTimestamp(),
+      });
+
+    // The upload itself succeeded even if auto mode is misconfigured
+    let autoJobId: string | null = null;
+    try {
+      autoJobId = await createAutoProcessJob(sessionId, photoRef.id);
+    } catch (err) {
+      console.error('Auto process error:', err);
+    }
+
+    if (autoJobId) {
+      after(() => processGenerationQueue(sessionId));
+    }
+
+    return NextResponse.json({ photoId: photoRef.id, autoJobId });
+  } catch (error) {
+    console.error('Photo upload error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,76 +1,92 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getProvider, getWebhookUrl, ProviderError } from '@/lib/providers';
+import { cancelGenerationJob } from '@/lib/generation-jobs';
+import { GenerationError } from '@/lib/generation-errors';
+import { adminBucket } from '@/lib/firebase-admin';
+import {
+  validateReplicateRequest,
+  RequestValidationError,
+} from '@/lib/replicate-validation';
+import { processGenerationQueue } from '@/lib/generation-queue';
+import { moderatePrompt } from '@/lib/moderation';
+import { checkBudget, recordPredictionUsage } from '@/lib/generation-usage';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { action, version, input, predictionId } = body;
+    const body = await request.json().catch(() => {
+      throw new RequestValidationError('invalid_body', 'Request body must be valid JSON');
+    });
+    // Only allowlisted models, input fields and our own images reach the provider
+    const validated = validateReplicateRequest(body, adminBucket.name);
 
-    const token = process.env.REPLICATE_API_TOKEN;
-    if (!token) {
-      return NextResponse.json(
-        { error: 'Replicate API token not configured' },
-        { status: 500 }
-      );
-    }
-
-    // Handle creating a new prediction
-    if (action === 'create') {
-      const response = await fetch('https://api.replicate.com/v1/predictions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Token ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ version, input }),
-      });
+    const provider = getProvider();
 
-      if (!response.ok) {
-        const error = await response.text();
+    // Handle creating a new prediction; the webhook only records its usage
+    if (validated.action === 'create') {
+      const { version, input, sessionId } = validated;
+      const promptCheck = moderatePrompt(input.prompt);
+      if (promptCheck.flagged) {
         return NextResponse.json(
-          { error: `Failed to create prediction: ${error}` },
-          { status: response.status }
+          { error: promptCheck.reason, code: 'prompt_rejected', rule: promptCheck.rule },
+          { status: 422 }
         );
       }
 
-      const data = await response.json();
+      await checkBudget(sessionId);
+      const data = await provider.create(version, input, {
+        webhook: provider.supportsWebhooks
+          ? getWebhookUrl({ sessionId })
+          : undefined,
+      });
       return NextResponse.json(data);
     }
 
     // Handle getting prediction status
-    if (action === 'get') {
-      if (!predictionId) {
-        return NextResponse.json(
-          { error: 'Prediction ID is required' },
-          { status: 400 }
-        );
-      }
+    // Predictions run without a job are accounted for when polled to completion
+    if (validated.action === 'get') {
+      const data = await provider.get(validated.predictionId);
+      await recordPredictionUsage({ prediction: data, sessionId: validated.sessionId });
+      return NextResponse.json(data);
+    }
+
+    // Handle canceling a prediction; with a job, the cancellation is recorded too
+    const { predictionId, sessionId, jobId } = validated;
+    if (sessionId && jobId) {
+      await cancelGenerationJob(sessionId, jobId);
+      after(() => processGenerationQueue(sessionId));
+      return NextResponse.json({ canceled: true });
+    }
+
+    if (!predictionId) {
+      return NextResponse.json(
+        { error: 'Prediction ID or job is required', code: 'missing_field', field: 'predictionId' },
+        { status: 400 }
+      );
+    }
 
-      const response = await fetch(
-        `https://api.replicate.com/v1/predictions/${predictionId}`,
-        {
-          headers: {
-            Authorization: `Token ${token}`,
-          },
-        }
+    const data = await provider.cancel(predictionId);
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, field: error.field },
+        { status: error.status }
       );
+    }
 
-      if (!response.ok) {
-        const error = await response.text();
-        return NextResponse.json(
-          { error: `Failed to get prediction: ${error}` },
-          { status: response.status }
-        );
-      }
+    if (error instanceof ProviderError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
 
-      const data = await response.json();
-      return NextResponse.json(data);
+    // Provider calls that still failed after retrying
+    if (error instanceof GenerationError) {
+      console.error('Replicate API error:', error);
+      return NextResponse.json(
+        { error: error.message, errorType: error.type },
+        { status: error.status || 502 }
+      );
     }
 
-    return NextResponse.json(
-      { error: 'Invalid action. Use "create" or "get"' },
-      { status: 400 }
-    );
-  } catch (error) {
     console.error('Replicate API error:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal server error' },
@@ -0,0 +1,336 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/replicate/webhook/route';
+import { handlePredictionUpdate } from '@/lib/generation-jobs';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import { FieldValue, type FakeBucket, type FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/firestore', async () => {
+  const { FieldValue } = await import('@/test/firestore');
+  return { FieldValue };
+});
+vi.mock('firebase-admin/storage', async () => {
+  const { getDownloadURL } = await import('@/test/firestore');
+  return { getDownloadURL };
+});
+vi.mock('@/lib/generation-queue', () => ({ processGenerationQueue: vi.fn() }));
+vi.mock('next/server', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next/server')>()),
+  after: vi.fn(),
+}));
+
+const db = adminDb as unknown as FakeFirestore;
+const bucket = adminBucket as unknown as FakeBucket;
+
+const SESSION_ID = 'session-1';
+const JOB_ID = 'job-1';
+const PHOTO_ID = 'photo-1';
+const JOB_PATH = `sessions/${SESSION_ID}/generationJobs/${JOB_ID}`;
+const PHOTO_PATH = `sessions/${SESSION_ID}/photos/${PHOTO_ID}`;
+
+// PNG returned for the prediction's output URL
+const OUTPUT_IMAGE = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC',
+  'base64'
+);
+
+interface WebhookFixture {
+  headers: Record<'webhook-id' | 'webhook-timestamp' | 'webhook-signature', string>;
+  body: string;
+}
+
+// Hand-built deliveries in Replicate's format, signed with the test secret in vitest.config.mts
+function loadFixture(name: 'start' | 'logs' | 'succeeded' | 'failed' | 'canceled'): WebhookFixture {
+  const file = path.resolve(__dirname, '../../../../test/fixtures/webhooks', `${name}.json`);
+  return JSON.parse(readFileSync(file, 'utf8'));
+}
+
+function webhookRequest(
+  fixture: WebhookFixture,
+  { jobId = JOB_ID, headers = fixture.headers, body = fixture.body } = {}
+): NextRequest {
+  const url = `https://stand.example.com/api/replicate/webhook?sessionId=${SESSION_ID}&jobId=${jobId}`;
+  return new NextRequest(url, { method: 'POST', headers, body });
+}
+
+// Replays a fixture at the moment it was signed, so the age check passes
+async function replay(fixture: WebhookFixture, options?: Parameters<typeof webhookRequest>[1]) {
+  vi.setSystemTime(Number(fixture.headers['webhook-timestamp']) * 1000);
+  return POST(webhookRequest(fixture, options));
+}
+
+function responses() {
+  return db.list(`sessions/${SESSION_ID}/aiResponses`);
+}
+
+describe('POST /api/replicate/webhook', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    db.docs.clear();
+    bucket.files.clear();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(
+      async () => new Response(OUTPUT_IMAGE, { headers: { 'content-type': 'image/png' } })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    db.set(`sessions/${SESSION_ID}`, {});
+    db.set(PHOTO_PATH, { url: 'https://example.com/input.jpg', storagePath: 'stant_images/input/x.jpg' });
+    db.set(JOB_PATH, {
+      photoId: PHOTO_ID,
+      prompt: 'Turn this photo into a watercolor painting',
+      modelId: 'seedream-4',
+      modelVersion: 'seedream-test-version',
+      settings: { size: '2K' },
+      variantCount: 1,
+      status: 'processing',
+      predictionId: 'q7d3x2mxs5rj00cr1f8tk2bmjg',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('rejections', () => {
+    it('rejects deliveries without signature headers with 400', async () => {
+      const fixture = loadFixture('succeeded');
+      const response = await replay(fixture, { headers: {} as WebhookFixture['headers'] });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Missing webhook signature headers' });
+    });
+
+    it('rejects deliveries older than five minutes with 401', async () => {
+      const fixture = loadFixture('succeeded');
+      vi.setSystemTime((Number(fixture.headers['webhook-timestamp']) + 6 * 60) * 1000);
+      const response = await POST(webhookRequest(fixture));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Webhook timestamp is too old' });
+    });
+
+    it('rejects a body that does not match the signature with 401', async () => {
+      const fixture = loadFixture('succeeded');
+      const body = fixture.body.replace('fixture-output-0.png', 'attacker.png');
+      const response = await replay(fixture, { body });
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: 'Invalid webhook signature' });
+      expect(db.get(JOB_PATH)?.status).toBe('processing');
+    });
+  });
+
+  it('marks the job as running on start', async () => {
+    const response = await replay(loadFixture('start'));
+
+    expect(response.status).toBe(200);
+    expect(db.get(JOB_PATH)).toMatchObject({ status: 'processing', predictionStatus: 'starting' });
+    expect(responses()).toHaveLength(0);
+  });
+
+  it('stores logs and parsed progress', async () => {
+    await replay(loadFixture('logs'));
+
+    const job = db.get(JOB_PATH);
+    expect(job?.predictionStatus).toBe('processing');
+    expect(job?.logs).toContain('14/28');
+    expect(job?.progress).toEqual({ percent: 50, step: 14, totalSteps: 28 });
+  });
+
+  it('copies the output, publishes it on the photo and records the attempt', async () => {
+    const response = await replay(loadFixture('succeeded'));
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledWith('https://replicate.delivery/xezq/fixture-output-0.png');
+
+    const [storagePath] = Array.from(bucket.files.keys());
+    expect(storagePath).toMatch(new RegExp(`^stant_images/ai/${SESSION_ID}/${PHOTO_ID}_\\d+_0\\.png$`));
+
+    const [attempt] = responses();
+    expect(responses()).toHaveLength(1);
+    expect(attempt.data).toMatchObject({
+      photoId: PHOTO_ID,
+      status: 'succeeded',
+      modelId: 'seedream-4',
+      outputImageStoragePath: storagePath,
+    });
+
+    expect(db.get(PHOTO_PATH)).toMatchObject({
+      aiOutputStoragePath: storagePath,
+      aiResponseId: attempt.id,
+    });
+    expect(db.get(JOB_PATH)).toMatchObject({
+      status: 'succeeded',
+      outputImageStoragePath: storagePath,
+    });
+
+    // Run time and cost are counted on the session
+    expect(db.get('usage/q7d3x2mxs5rj00cr1f8tk2bmjg')).toMatchObject({
+      sessionId: SESSION_ID,
+      jobId: JOB_ID,
+      predictTime: 6.433,
+      outputCount: 1,
+    });
+    expect(db.get(`sessions/${SESSION_ID}`)?.usage.predictions).toBe(1);
+  });
+
+  it('drops the rotation and crop chosen for the previous output', async () => {
+    await db.doc(PHOTO_PATH).update({
+      aiOutputUrl: 'https://example.com/previous.png',
+      outputTransform: { rotation: 90, flip: false },
+    });
+
+    await replay(loadFixture('succeeded'));
+
+    expect(db.get(PHOTO_PATH)?.aiOutputUrl).not.toBe('https://example.com/previous.png');
+    expect(db.get(PHOTO_PATH)).not.toHaveProperty('outputTransform');
+  });
+
+  it('ignores a replayed completion once the job has finished', async () => {
+    const fixture = loadFixture('succeeded');
+    await replay(fixture);
+    const photo = db.get(PHOTO_PATH);
+
+    const response = await replay(fixture);
+
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(bucket.files.size).toBe(1);
+    expect(responses()).toHaveLength(1);
+    expect(db.get(PHOTO_PATH)).toEqual(photo);
+    expect(db.get(`sessions/${SESSION_ID}`)?.usage.predictions).toBe(1);
+  });
+
+  it('copies and records the output once when a completion is delivered twice at once', async () => {
+    const fixture = loadFixture('succeeded');
+    // Slow download, so the second delivery arrives mid-copy
+    fetchMock.mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return new Response(OUTPUT_IMAGE, { headers: { 'content-type': 'image/png' } });
+    });
+
+    const results = await Promise.all([replay(fixture), replay(fixture)]);
+
+    expect(results.map((response) => response.status)).toEqual([200, 200]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(bucket.files.size).toBe(1);
+    expect(responses()).toHaveLength(1);
+    expect(db.get(PHOTO_PATH)?.aiResponseId).toBe(responses()[0].id);
+    expect(db.get(JOB_PATH)).toMatchObject({ status: 'succeeded' });
+    expect(db.get(JOB_PATH)).not.toHaveProperty('completing');
+  });
+
+  it('keeps a cancel that lands while the output is being copied', async () => {
+    fetchMock.mockImplementation(async () => {
+      await db.doc(JOB_PATH).update({ status: 'canceled', error: 'Canceled by operator' });
+      return new Response(OUTPUT_IMAGE, { headers: { 'content-type': 'image/png' } });
+    });
+
+    await replay(loadFixture('succeeded'));
+
+    expect(db.get(JOB_PATH)).toMatchObject({ status: 'canceled', error: 'Canceled by operator' });
+    expect(db.get(PHOTO_PATH)?.aiOutputUrl).toBeUndefined();
+    expect(responses()).toHaveLength(0);
+    expect(bucket.files.size).toBe(0);
+  });
+
+  it('fails the job with a classified error', async () => {
+    await replay(loadFixture('failed'));
+
+    expect(db.get(JOB_PATH)).toMatchObject({
+      status: 'failed',
+      errorType: 'model_failure',
+      error: 'Prediction failed: CUDA out of memory. Tried to allocate 2.00 GiB',
+    });
+    expect(responses().map((attempt) => attempt.data)).toEqual([
+      expect.objectContaining({ status: 'failed', errorType: 'model_failure', photoId: PHOTO_ID }),
+    ]);
+    expect(db.get(PHOTO_PATH)?.aiOutputUrl).toBeUndefined();
+  });
+
+  it('records a canceled prediction', async () => {
+    await replay(loadFixture('canceled'));
+
+    expect(db.get(JOB_PATH)).toMatchObject({ status: 'canceled', error: 'Prediction canceled' });
+    expect(responses().map((attempt) => attempt.data)).toEqual([
+      expect.objectContaining({ status: 'canceled' }),
+    ]);
+  });
+
+  it('does not overwrite a job canceled by an operator', async () => {
+    await db.doc(JOB_PATH).update({ status: 'canceled', error: 'Canceled by operator' });
+
+    await replay(loadFixture('succeeded'));
+
+    expect(db.get(JOB_PATH)).toMatchObject({ status: 'canceled', error: 'Canceled by operator' });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(responses()).toHaveLength(0);
+  });
+
+  it('has Replicate retry a completion that arrives before the job stored its prediction', async () => {
+    await db.doc(JOB_PATH).update({ predictionId: FieldValue.delete() });
+
+    const response = await replay(loadFixture('succeeded'));
+
+    expect(response.status).toBe(500);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(db.get(JOB_PATH)?.status).toBe('processing');
+  });
+
+  it('acknowledges deliveries for deleted jobs so Replicate stops retrying', async () => {
+    const response = await replay(loadFixture('succeeded'), { jobId: 'deleted-job' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, ignored: true });
+    expect(db.get('sessions/session-1/generationJobs/deleted-job')).toBeUndefined();
+    // Still counted against the day's budget
+    expect(db.get('usage/q7d3x2mxs5rj00cr1f8tk2bmjg')).toBeDefined();
+  });
+});
+
+describe('handlePredictionUpdate', () => {
+  beforeEach(() => {
+    db.docs.clear();
+    db.set(JOB_PATH, { photoId: PHOTO_ID, status: 'processing', predictionId: 'prediction-a' });
+  });
+
+  it('ignores predictions that belong to another job', async () => {
+    const handled = await handlePredictionUpdate(SESSION_ID, JOB_ID, {
+      id: 'prediction-b',
+      status: 'processing',
+    });
+
+    expect(handled).toBe(false);
+    expect(db.get(JOB_PATH)?.predictionStatus).toBeUndefined();
+  });
+
+  it('does not complete a job with another prediction', async () => {
+    const handled = await handlePredictionUpdate(SESSION_ID, JOB_ID, {
+      id: 'prediction-b',
+      status: 'succeeded',
+      output: ['https://replicate.delivery/other.png'],
+    });
+
+    expect(handled).toBe(false);
+    expect(db.get(JOB_PATH)?.status).toBe('processing');
+  });
+
+  it('reports a missing job', async () => {
+    const handled = await handlePredictionUpdate(SESSION_ID, 'missing', {
+      id: 'prediction-a',
+      status: 'processing',
+    });
+
+    expect(handled).toBe(false);
+  });
+});
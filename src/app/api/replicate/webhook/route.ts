@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { validateWebhook } from 'replicate';
+import { handlePredictionUpdate, isTerminalStatus } from '@/lib/generation-jobs';
+import { processGenerationQueue } from '@/lib/generation-queue';
+import { recordPredictionUsage } from '@/lib/generation-usage';
+import type { ProviderPrediction } from '@/lib/providers';
+
+// Reject deliveries older than this to limit replay attacks
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.REPLICATE_WEBHOOK_SECRET;
+    if (!secret) {
+      return NextResponse.json(
+        { error: 'Replicate webhook secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    const id = request.headers.get('webhook-id');
+    const timestamp = request.headers.get('webhook-timestamp');
+    const signature = request.headers.get('webhook-signature');
+    const body = await request.text();
+
+    if (!id || !timestamp || !signature) {
+      return NextResponse.json(
+        { error: 'Missing webhook signature headers' },
+        { status: 400 }
+      );
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > MAX_WEBHOOK_AGE_SECONDS) {
+      return NextResponse.json(
+        { error: 'Webhook timestamp is too old' },
+        { status: 401 }
+      );
+    }
+
+    const isValid = await validateWebhook({ id, timestamp, signature, body, secret });
+    if (!isValid) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    const prediction: ProviderPrediction = JSON.parse(body);
+    const sessionId = request.nextUrl.searchParams.get('sessionId');
+    const jobId = request.nextUrl.searchParams.get('jobId');
+
+    // Predictions created without a job have nothing to update
+    if (!sessionId || !jobId) {
+      await recordPredictionUsage({ prediction, sessionId: sessionId || undefined });
+      return NextResponse.json({ received: true });
+    }
+
+    // Deleted jobs are acknowledged, or Replicate would keep retrying
+    const handled = await handlePredictionUpdate(sessionId, jobId, prediction);
+    if (!handled) {
+      return NextResponse.json({ received: true, ignored: true });
+    }
+
+    // A finished prediction frees a slot for the next queued job
+    if (isTerminalStatus(prediction.status)) {
+      after(() => processGenerationQueue(sessionId));
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Replicate webhook error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,7 @@ import {
   orderBy,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { normalizeTransform } from '@/lib/transforms';
 import type { Photo } from '@/types';
 import BentoPhoto from '@/components/BentoPhoto';
 
@@ -39,6 +40,7 @@ export default function CollagePage() {
             aiOutputUrl: data.aiOutputUrl,
             aiOutputStoragePath: data.aiOutputStoragePath,
             aiProcessedAt: data.aiProcessedAt?.toDate(),
+            outputTransform: normalizeTransform(data.outputTransform),
           };
         })
         .filter((photo) => photo.aiOutputUrl);
@@ -4,14 +4,33 @@ import { useState, useEffect } from 'react';
 import { useParams } from 'next/navigation';
 import {
   collection,
+  doc,
   onSnapshot,
   query,
   orderBy,
   Timestamp,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { toGenerationJob, getQueuePositions } from '@/lib/jobs';
+import { toPromptPreset } from '@/lib/presets';
+import { toAIResponse } from '@/lib/aiResponses';
+import { toUsageTotals, formatCost } from '@/lib/usage';
+import { normalizeTransform } from '@/lib/transforms';
 import PhotoCard from '@/components/PhotoCard';
-import type { Photo } from '@/types';
+import PresetEditor from '@/components/PresetEditor';
+import CompositionPanel from '@/components/CompositionPanel';
+import BatchPanel from '@/components/BatchPanel';
+import AutoProcessPanel from '@/components/AutoProcessPanel';
+import UsagePanel from '@/components/UsagePanel';
+import type {
+  Photo,
+  GenerationJob,
+  PromptPreset,
+  ModelSelection,
+  AIResponse,
+  AutoProcessConfig,
+  UsageTotals,
+} from '@/types';
 
 export default function DashboardPage() {
   const params = useParams();
@@ -19,6 +38,22 @@ export default function DashboardPage() {
   const [photos, setPhotos] = useState<Photo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [latestJobs, setLatestJobs] = useState<Record<string, GenerationJob>>({});
+  const [jobsById, setJobsById] = useState<Record<string, GenerationJob>>({});
+  const [queuePositions, setQueuePositions] = useState<Record<string, number>>({});
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [showPresetEditor, setShowPresetEditor] = useState(false);
+  const [showComposer, setShowComposer] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  // Stays mounted once opened, so hiding it doesn't lose a running batch
+  const [batchOpened, setBatchOpened] = useState(false);
+  const [modelDefaults, setModelDefaults] = useState<ModelSelection | undefined>();
+  const [autoProcess, setAutoProcess] = useState<AutoProcessConfig | undefined>();
+  const [showAutoProcess, setShowAutoProcess] = useState(false);
+  const [usage, setUsage] = useState<UsageTotals | undefined>();
+  const [budgetUsd, setBudgetUsd] = useState<number | undefined>();
+  const [showUsage, setShowUsage] = useState(false);
+  const [responsesByPhoto, setResponsesByPhoto] = useState<Record<string, AIResponse[]>>({});
 
   useEffect(() => {
     if (!sessionId) return;
@@ -42,6 +77,12 @@ export default function DashboardPage() {
                   : new Date(),
               aiOutputUrl: data.aiOutputUrl,
               aiOutputStoragePath: data.aiOutputStoragePath,
+              aiVariants: data.aiVariants || undefined,
+              aiResponseId: data.aiResponseId || undefined,
+              sourcePhotoIds: data.sourcePhotoIds || undefined,
+              autoJobId: data.autoJobId || undefined,
+              mask: data.mask || undefined,
+              outputTransform: normalizeTransform(data.outputTransform),
               aiProcessedAt:
                 data.aiProcessedAt instanceof Timestamp
                   ? data.aiProcessedAt.toDate()
@@ -66,7 +107,106 @@ export default function DashboardPage() {
     }
   }, [sessionId]);
 
+  // Subscribe to server-side generation jobs so progress survives reloads
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const jobsCollection = collection(db, `sessions/${sessionId}/generationJobs`);
+    const jobsQuery = query(jobsCollection, orderBy('createdAt', 'desc'));
+
+    const unsubscribe = onSnapshot(
+      jobsQuery,
+      (snapshot) => {
+        const jobs = snapshot.docs.map((doc) => toGenerationJob(doc.id, doc.data()));
+
+        // Keep only the most recent job per photo; comparison runs are
+        // followed in their own panel
+        const jobsByPhoto: Record<string, GenerationJob> = {};
+        jobs.forEach((job) => {
+          if (!job.comparisonId && !jobsByPhoto[job.photoId]) {
+            jobsByPhoto[job.photoId] = job;
+          }
+        });
+        setLatestJobs(jobsByPhoto);
+        setJobsById(Object.fromEntries(jobs.map((job) => [job.id, job])));
+        setQueuePositions(getQueuePositions(jobs));
+      },
+      (err) => {
+        console.error('Firestore jobs error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  // Subscribe to every attempt, for history and refinement chains
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const responsesQuery = query(
+      collection(db, `sessions/${sessionId}/aiResponses`),
+      orderBy('createdAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(
+      responsesQuery,
+      (snapshot) => {
+        const grouped: Record<string, AIResponse[]> = {};
+        snapshot.docs.forEach((doc) => {
+          const response = toAIResponse(doc.id, doc.data());
+          (grouped[response.photoId] ||= []).push(response);
+        });
+        setResponsesByPhoto(grouped);
+      },
+      (err) => {
+        console.error('Firestore history error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  // Subscribe to the session's default model settings, auto mode and usage
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const unsubscribe = onSnapshot(
+      doc(db, 'sessions', sessionId),
+      (snapshot) => {
+        setModelDefaults(snapshot.get('modelDefaults') || undefined);
+        setAutoProcess(snapshot.get('autoProcess') || undefined);
+        setUsage(snapshot.get('usage') ? toUsageTotals(snapshot.get('usage')) : undefined);
+        setBudgetUsd(snapshot.get('budgetUsd') || undefined);
+      },
+      (err) => {
+        console.error('Firestore session error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  // Subscribe to the shared prompt preset library
+  useEffect(() => {
+    const presetsQuery = query(collection(db, 'presets'), orderBy('name'));
+
+    const unsubscribe = onSnapshot(
+      presetsQuery,
+      (snapshot) => {
+        setPresets(snapshot.docs.map((doc) => toPromptPreset(doc.id, doc.data())));
+      },
+      (err) => {
+        console.error('Firestore presets error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
   const mobileUploadUrl = `${window.location.origin}/m/${sessionId}`;
+  // Composites can't be combined again
+  const uploadedPhotos = photos.filter((photo) => !photo.sourcePhotoIds);
+  const compositeSourceIds = new Set(photos.flatMap((photo) => photo.sourcePhotoIds ?? []));
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
@@ -87,6 +227,57 @@ export default function DashboardPage() {
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => setShowUsage(!showUsage)}
+                className={`px-4 py-2 rounded-lg font-medium text-center transition-colors ${
+                  budgetUsd && (usage?.estimatedCost ?? 0) >= budgetUsd
+                    ? 'bg-red-100 hover:bg-red-200 dark:bg-red-900/50 dark:hover:bg-red-900 text-red-800 dark:text-red-200'
+                    : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200'
+                }`}
+                title="Estimated cost of this session"
+              >
+                {formatCost(usage?.estimatedCost ?? 0)}
+                {budgetUsd ? ` / ${formatCost(budgetUsd)}` : ''}
+              </button>
+              <button
+                onClick={() => setShowAutoProcess(!showAutoProcess)}
+                className={`px-4 py-2 rounded-lg font-medium text-center transition-colors flex items-center justify-center gap-2 ${
+                  autoProcess?.enabled
+                    ? 'bg-green-100 hover:bg-green-200 dark:bg-green-900/50 dark:hover:bg-green-900 text-green-800 dark:text-green-200'
+                    : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200'
+                }`}
+                title={autoProcess?.enabled ? `Auto mode: ${autoProcess.prompt}` : undefined}
+              >
+                <span
+                  className={`w-2 h-2 rounded-full ${
+                    autoProcess?.enabled ? 'bg-green-500 animate-pulse' : 'bg-gray-400'
+                  }`}
+                ></span>
+                Auto Mode {autoProcess?.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                onClick={() => {
+                  setShowBatch(!showBatch);
+                  setBatchOpened(true);
+                }}
+                disabled={photos.length === 0}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-center transition-colors disabled:opacity-50"
+              >
+                {showBatch ? 'Hide' : 'Show'} Batch Apply
+              </button>
+              <button
+                onClick={() => setShowComposer(!showComposer)}
+                disabled={uploadedPhotos.length < 2}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-center transition-colors disabled:opacity-50"
+              >
+                {showComposer ? 'Hide' : 'Compose'} Group Photo
+              </button>
+              <button
+                onClick={() => setShowPresetEditor(!showPresetEditor)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg font-medium text-center transition-colors"
+              >
+                {showPresetEditor ? 'Hide' : 'Manage'} Presets
+              </button>
               <a
                 href={mobileUploadUrl}
                 target="_blank"
@@ -102,6 +293,56 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {showPresetEditor && (
+          <div className="mb-6">
+            <PresetEditor presets={presets} />
+          </div>
+        )}
+
+        {showUsage && (
+          <div className="mb-6">
+            <UsagePanel
+              key={budgetUsd ?? 0}
+              sessionId={sessionId}
+              usage={usage}
+              budgetUsd={budgetUsd}
+            />
+          </div>
+        )}
+
+        {showAutoProcess && (
+          <div className="mb-6">
+            <AutoProcessPanel
+              sessionId={sessionId}
+              config={autoProcess}
+              presets={presets}
+              modelDefaults={modelDefaults}
+            />
+          </div>
+        )}
+
+        {batchOpened && (
+          <div className={showBatch ? 'mb-6' : 'hidden'}>
+            <BatchPanel
+              sessionId={sessionId}
+              photos={photos}
+              jobs={jobsById}
+              presets={presets}
+              modelDefaults={modelDefaults}
+            />
+          </div>
+        )}
+
+        {showComposer && uploadedPhotos.length >= 2 && (
+          <div className="mb-6">
+            <CompositionPanel
+              sessionId={sessionId}
+              photos={uploadedPhotos}
+              modelDefaults={modelDefaults}
+            />
+          </div>
+        )}
+
         {loading && (
           <div className="flex items-center justify-center py-12">
             <div className="flex flex-col items-center gap-4">
@@ -178,6 +419,13 @@ export default function DashboardPage() {
                   key={photo.id}
                   photo={photo}
                   sessionId={sessionId}
+                  job={latestJobs[photo.id]}
+                  queuePosition={queuePositions[latestJobs[photo.id]?.id]}
+                  presets={presets}
+                  modelDefaults={modelDefaults}
+                  sourcePhotos={photo.sourcePhotoIds ? uploadedPhotos : undefined}
+                  responses={responsesByPhoto[photo.id]}
+                  usedInComposite={compositeSourceIds.has(photo.id)}
                 />
               ))}
             </div>
@@ -1,66 +1,239 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams } from 'next/navigation';
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
-import { storage, db } from '@/lib/firebase';
-import { normalizeImageOrientation } from '@/lib/imageUtils';
+import type { UploadTask } from 'firebase/storage';
+import { registerUploadedPhoto } from '@/lib/photos';
+import {
+  preprocessImage,
+  validateImageFile,
+  formatFileSize,
+  DEFAULT_PREPROCESS_OPTIONS,
+  SUPPORTED_INPUT_TYPES,
+} from '@/lib/imageUtils';
+import {
+  uploadInputPhoto,
+  loadDeviceUploads,
+  saveDeviceUpload,
+  DeviceUpload,
+} from '@/lib/uploads';
+import CameraCapture, { isCameraSupported } from '@/components/CameraCapture';
+
+type UploadStatus =
+  | 'pending'
+  | 'preparing'
+  | 'uploading'
+  | 'paused'
+  | 'registering'
+  | 'done'
+  | 'failed';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: number; // 0-1
+  error?: string;
+}
+
+// Files are uploaded one at a time, so a weak connection isn't split further
+const ACTIVE_STATUSES: UploadStatus[] = ['preparing', 'uploading', 'paused', 'registering'];
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  pending: 'Waiting...',
+  preparing: 'Preparing...',
+  uploading: 'Uploading',
+  paused: 'Paused - waiting for connection',
+  registering: 'Saving...',
+  done: 'Uploaded',
+  failed: 'Failed',
+};
 
 export default function MobileUploadPage() {
   const params = useParams();
   const sessionId = params.sessionId as string;
-  const [uploading, setUploading] = useState(false);
-  const [uploadSuccess, setUploadSuccess] = useState(false);
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [deviceUploads, setDeviceUploads] = useState<DeviceUpload[]>([]);
+  const [dragging, setDragging] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  // Null until checked on the client; false shows the file input instead
+  const [cameraSupported, setCameraSupported] = useState<boolean | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const activeTask = useRef<UploadTask | null>(null);
+  // Kept between retries so a file is only converted and stored once
+  const preparedFiles = useRef<Record<string, File>>({});
+  const uploadedFiles = useRef<Record<string, { url: string; storagePath: string }>>({});
+
+  const uploading = items.some((item) => ACTIVE_STATUSES.includes(item.status));
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  useEffect(() => {
+    setDeviceUploads(loadDeviceUploads(sessionId));
+  }, [sessionId]);
 
-    setUploading(true);
-    setError(null);
-    setUploadSuccess(false);
+  useEffect(() => {
+    setCameraSupported(isCameraSupported());
+  }, []);
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    setItems((current) =>
+      current.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    );
+  };
+
+  const runUpload = async (item: UploadItem) => {
+    updateItem(item.id, { status: 'preparing', progress: 0, error: undefined });
 
     try {
-      // Normalize image orientation based on EXIF data
-      // This prevents images from being rotated incorrectly
-      const normalizedFile = await normalizeImageOrientation(file);
-
-      // Upload to Firebase Storage - stant_images/input path
-      const timestamp = Date.now();
-      // Use .png extension since images are converted to PNG
-      const storageRef = ref(storage, `stant_images/input/${sessionId}/${timestamp}.png`);
-      await uploadBytes(storageRef, normalizedFile);
-
-      // Get download URL
-      const downloadURL = await getDownloadURL(storageRef);
-
-      // Save metadata to Firestore
-      const photosCollection = collection(db, `sessions/${sessionId}/photos`);
-      await addDoc(photosCollection, {
-        url: downloadURL,
-        storagePath: storageRef.fullPath,
-        uploadedAt: serverTimestamp(),
-      });
+      let uploaded = uploadedFiles.current[item.id];
+      if (!uploaded) {
+        // Scale down and compress to the configured upload limits
+        const prepared =
+          preparedFiles.current[item.id] ?? (await preprocessImage(item.file));
+        preparedFiles.current[item.id] = prepared;
 
-      setUploadSuccess(true);
+        updateItem(item.id, { status: navigator.onLine ? 'uploading' : 'paused' });
+        const upload = uploadInputPhoto(sessionId, prepared, (progress) =>
+          updateItem(item.id, { progress })
+        );
+        activeTask.current = upload.task;
+        if (!navigator.onLine) {
+          upload.task.pause();
+        }
+        uploaded = await upload.done;
+        uploadedFiles.current[item.id] = uploaded;
+      }
+      activeTask.current = null;
 
-      // Reset file input
-      e.target.value = '';
+      // Save metadata to Firestore (and start auto mode, if it's on)
+      updateItem(item.id, { status: 'registering', progress: 1 });
+      const photoId = await registerUploadedPhoto(sessionId, uploaded.url, uploaded.storagePath);
+      setDeviceUploads(
+        saveDeviceUpload(sessionId, {
+          photoId,
+          name: item.file.name,
+          url: uploaded.url,
+          uploadedAt: Date.now(),
+        })
+      );
 
-      // Reset success message after 3 seconds
-      setTimeout(() => setUploadSuccess(false), 3000);
+      delete preparedFiles.current[item.id];
+      delete uploadedFiles.current[item.id];
+      updateItem(item.id, { status: 'done' });
     } catch (err) {
       console.error('Upload error:', err);
-      setError(err instanceof Error ? err.message : 'Upload failed');
-    } finally {
-      setUploading(false);
+      activeTask.current = null;
+      updateItem(item.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Upload failed',
+      });
+    }
+  };
+
+  // Start the next waiting file once the previous one is finished
+  useEffect(() => {
+    if (uploading) return;
+
+    const next = items.find((item) => item.status === 'pending');
+    if (next) {
+      runUpload(next);
     }
+  }, [items, uploading]);
+
+  // Hold the upload while offline instead of letting it fail, then continue
+  useEffect(() => {
+    const handleOffline = () => {
+      if (activeTask.current?.pause()) {
+        setItems((current) =>
+          current.map((item) =>
+            item.status === 'uploading' ? { ...item, status: 'paused' } : item
+          )
+        );
+      }
+    };
+    const handleOnline = () => {
+      activeTask.current?.resume();
+      setItems((current) =>
+        current.map((item) =>
+          item.status === 'paused' ? { ...item, status: 'uploading' } : item
+        )
+      );
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, []);
+
+  const addFiles = (files: File[]) => {
+    // Files that can't be uploaded are reported instead of queued
+    const images: File[] = [];
+    const rejections: string[] = [];
+    files.forEach((file) => {
+      try {
+        validateImageFile(file);
+        images.push(file);
+      } catch (err) {
+        rejections.push(err instanceof Error ? err.message : `${file.name} can't be uploaded`);
+      }
+    });
+    setError(rejections.length > 0 ? rejections.join('\n') : null);
+
+    setItems((current) => [
+      ...current,
+      ...images.map((file) => ({
+        id: `${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+        file,
+        status: 'pending' as const,
+        progress: 0,
+      })),
+    ]);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Reset file input so the same file can be picked again
+    e.target.value = '';
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Camera shots join the same queue, so they're compressed and uploaded like picked files
+  const handleCapture = (file: File) => {
+    setCameraOpen(false);
+    addFiles([file]);
+  };
+
+  // Falls back to the file input for the rest of the visit
+  const handleCameraUnavailable = (reason: string) => {
+    setCameraOpen(false);
+    setCameraSupported(false);
+    setCameraError(reason);
+  };
+
+  const handleRemove = (id: string) => {
+    delete preparedFiles.current[id];
+    delete uploadedFiles.current[id];
+    setItems((current) => current.filter((item) => item.id !== id));
   };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      {cameraOpen && (
+        <CameraCapture
+          onCapture={handleCapture}
+          onClose={() => setCameraOpen(false)}
+          onUnavailable={handleCameraUnavailable}
+        />
+      )}
+
       <div className="bg-white rounded-2xl shadow-xl p-8 max-w-md w-full">
         <div className="text-center mb-8">
           <h1 className="text-3xl font-bold text-gray-800 mb-2">
@@ -74,10 +247,16 @@ export default function MobileUploadPage() {
         <div className="space-y-4">
           <label
             htmlFor="file-upload"
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
             className={`
               block w-full p-8 border-2 border-dashed rounded-xl text-center cursor-pointer
               transition-all duration-200
-              ${uploading ? 'border-gray-300 bg-gray-50 cursor-not-allowed' : 'border-indigo-300 hover:border-indigo-500 hover:bg-indigo-50'}
+              ${dragging ? 'border-indigo-500 bg-indigo-50' : 'border-indigo-300 hover:border-indigo-500 hover:bg-indigo-50'}
             `}
           >
             <div className="space-y-2">
@@ -96,47 +275,112 @@ export default function MobileUploadPage() {
                 />
               </svg>
               <div className="text-gray-600">
-                {uploading ? (
-                  <span className="font-medium">Uploading...</span>
-                ) : (
-                  <>
-                    <span className="font-medium text-indigo-600">
-                      Click to upload
-                    </span>
-                    <span> or drag and drop</span>
-                  </>
-                )}
+                <span className="font-medium text-indigo-600">
+                  Click to upload
+                </span>
+                <span> or drag and drop</span>
               </div>
-              <p className="text-xs text-gray-500">PNG, JPG up to 10MB</p>
+              <p className="text-xs text-gray-500">
+                PNG, JPG, WebP up to {formatFileSize(DEFAULT_PREPROCESS_OPTIONS.maxInputBytes)} -
+                pick as many as you like
+              </p>
             </div>
             <input
               id="file-upload"
               type="file"
-              accept="image/*"
-              capture="environment"
+              accept={SUPPORTED_INPUT_TYPES.join(',')}
+              multiple
               onChange={handleFileSelect}
-              disabled={uploading}
               className="hidden"
             />
           </label>
 
-          {uploadSuccess && (
-            <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-3">
-              <svg
-                className="h-5 w-5 text-green-500 flex-shrink-0"
-                fill="currentColor"
-                viewBox="0 0 20 20"
-              >
-                <path
-                  fillRule="evenodd"
-                  d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              <span className="text-green-800 font-medium">
-                Upload successful!
-              </span>
-            </div>
+          {cameraSupported ? (
+            <button
+              onClick={() => setCameraOpen(true)}
+              className="block w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium text-center transition-colors"
+            >
+              Take a Photo
+            </button>
+          ) : (
+            // Without a live camera, the phone's own camera app takes the shot
+            <label
+              htmlFor="camera-upload"
+              className="block w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium text-center cursor-pointer transition-colors"
+            >
+              Take a Photo
+              <input
+                id="camera-upload"
+                type="file"
+                accept={SUPPORTED_INPUT_TYPES.join(',')}
+                capture="environment"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </label>
+          )}
+
+          {cameraError && (
+            <p className="text-xs text-amber-700 text-center">{cameraError}</p>
+          )}
+
+          {items.length > 0 && (
+            <ul className="space-y-2">
+              {items.map((item) => (
+                <li key={item.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-800 truncate" title={item.file.name}>
+                      {item.file.name}
+                    </span>
+                    <span
+                      className={`text-xs flex-shrink-0 ${
+                        item.status === 'done'
+                          ? 'text-green-600'
+                          : item.status === 'failed'
+                            ? 'text-red-600'
+                            : item.status === 'paused'
+                              ? 'text-amber-600'
+                              : 'text-gray-500'
+                      }`}
+                    >
+                      {STATUS_LABELS[item.status]}
+                      {item.status === 'uploading' && ` ${Math.round(item.progress * 100)}%`}
+                    </span>
+                  </div>
+
+                  {item.status !== 'done' && item.status !== 'failed' && (
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-indigo-600 h-2 rounded-full transition-all"
+                        style={{ width: `${item.progress * 100}%` }}
+                      ></div>
+                    </div>
+                  )}
+
+                  {item.status === 'failed' && (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-red-700 truncate" title={item.error}>
+                        {item.error}
+                      </span>
+                      <div className="flex gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => updateItem(item.id, { status: 'pending', progress: 0 })}
+                          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-xs font-medium transition-colors"
+                        >
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => handleRemove(item.id)}
+                          className="px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded text-xs font-medium transition-colors"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
           )}
 
           {error && (
@@ -152,11 +396,30 @@ export default function MobileUploadPage() {
                   clipRule="evenodd"
                 />
               </svg>
-              <span className="text-red-800 text-sm">{error}</span>
+              <span className="text-red-800 text-sm whitespace-pre-line">{error}</span>
             </div>
           )}
         </div>
 
+        {deviceUploads.length > 0 && (
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <h2 className="text-sm font-medium text-gray-700 mb-3">
+              Uploaded from this device ({deviceUploads.length})
+            </h2>
+            <div className="grid grid-cols-4 gap-2">
+              {deviceUploads.map((upload) => (
+                <img
+                  key={upload.photoId}
+                  src={upload.url}
+                  alt={upload.name}
+                  title={`${upload.name} - ${new Date(upload.uploadedAt).toLocaleTimeString()}`}
+                  className="w-full aspect-square object-cover rounded-lg bg-gray-100"
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="mt-6 pt-6 border-t border-gray-200">
           <p className="text-xs text-gray-500 text-center">
             Photos will appear on the dashboard in real-time
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { doc, setDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { usePresetPrompt } from '@/hooks/usePresetPrompt';
+import { describeUnfilledVariables } from '@/lib/presets';
+import PresetPicker from '@/components/PresetPicker';
+import ModelSettingsPanel from '@/components/ModelSettingsPanel';
+import type { AutoProcessConfig, ModelSelection, PromptPreset } from '@/types';
+
+interface AutoProcessPanelProps {
+  sessionId: string;
+  config?: AutoProcessConfig; // Saved auto mode settings
+  presets?: PromptPreset[];
+  modelDefaults?: ModelSelection;
+}
+
+/**
+ * Auto mode: the server generates every photo uploaded to the session with
+ * the prompt and settings saved here.
+ */
+export default function AutoProcessPanel({
+  sessionId,
+  config,
+  presets = [],
+  modelDefaults,
+}: AutoProcessPanelProps) {
+  const {
+    prompt,
+    selectedPreset,
+    presetValues,
+    unfilledVariables,
+    activeModelSelection,
+    setModelSelection,
+    handleSelectPreset,
+    handlePresetValuesChange,
+    handlePromptChange,
+  } = usePresetPrompt({
+    modelDefaults,
+    initialPrompt: config?.prompt,
+    initialPreset: presets.find((preset) => preset.id === config?.presetId),
+    initialModelSelection: config ? { modelId: config.modelId, settings: config.settings } : null,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const enabled = !!config?.enabled;
+
+  const saveConfig = async (nextEnabled: boolean) => {
+    if (nextEnabled && !prompt.trim()) {
+      setError('Please enter a prompt');
+      return;
+    }
+    if (nextEnabled && unfilledVariables.length > 0) {
+      setError(describeUnfilledVariables(unfilledVariables));
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const autoProcess: AutoProcessConfig = {
+        enabled: nextEnabled,
+        prompt,
+        ...(selectedPreset ? { presetId: selectedPreset.id } : {}),
+        modelId: activeModelSelection.modelId,
+        settings: activeModelSelection.settings,
+      };
+      await setDoc(doc(db, 'sessions', sessionId), { autoProcess }, { merge: true });
+    } catch (err) {
+      console.error('Save auto mode error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save auto mode');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Auto Mode</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            When on, every photo uploaded to this session is generated right away with this
+            prompt, even if no dashboard is open.
+          </p>
+        </div>
+        <span
+          className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
+            enabled
+              ? 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-200'
+              : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {enabled ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      <PresetPicker
+        presets={presets}
+        selectedPreset={selectedPreset}
+        values={presetValues}
+        disabled={saving}
+        onSelect={handleSelectPreset}
+        onValuesChange={handlePresetValuesChange}
+      />
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <textarea
+          value={prompt}
+          onChange={(e) => handlePromptChange(e.target.value)}
+          disabled={saving}
+          placeholder="Prompt for every new photo..."
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none disabled:opacity-50 text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+          rows={4}
+        />
+        <ModelSettingsPanel
+          id="auto-model"
+          value={activeModelSelection}
+          disabled={saving}
+          onChange={setModelSelection}
+        />
+      </div>
+
+      {unfilledVariables.length > 0 && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">
+          {describeUnfilledVariables(unfilledVariables)}
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {enabled && (
+          <button
+            onClick={() => saveConfig(false)}
+            disabled={saving}
+            className="flex-1 px-4 py-3 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+          >
+            Turn Off
+          </button>
+        )}
+        <button
+          onClick={() => saveConfig(true)}
+          disabled={saving || !prompt.trim() || unfilledVariables.length > 0}
+          className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+        >
+          {saving ? 'Saving...' : enabled ? 'Update Auto Mode' : 'Turn On Auto Mode'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useState } from 'react';
+import { startGenerationJob } from '@/lib/jobs';
+import { describeGenerationError } from '@/lib/generation-errors';
+import { usePresetPrompt } from '@/hooks/usePresetPrompt';
+import { describeUnfilledVariables } from '@/lib/presets';
+import PresetPicker from '@/components/PresetPicker';
+import ModelSettingsPanel from '@/components/ModelSettingsPanel';
+import type { Photo, GenerationJob, PromptPreset, ModelSelection } from '@/types';
+
+interface BatchPanelProps {
+  sessionId: string;
+  photos: Photo[];
+  jobs: Record<string, GenerationJob>; // Every job in the session, by ID
+  presets?: PromptPreset[];
+  modelDefaults?: ModelSelection;
+}
+
+// One photo of a running batch. Once started, its status comes from its job.
+interface BatchItem {
+  photoId: string;
+  jobId?: string;
+  error?: string; // The job could not be started
+}
+
+type BatchItemStatus =
+  | 'waiting'
+  | 'queued'
+  | 'processing'
+  | 'succeeded'
+  | 'review'
+  | 'failed'
+  | 'canceled';
+
+function getItemStatus(item: BatchItem, job?: GenerationJob): BatchItemStatus {
+  if (item.error) return 'failed';
+  if (!item.jobId) return 'waiting';
+  if (job?.status === 'succeeded' && job.reviewReason) return 'review';
+  // The job document may not have reached the listener yet
+  return job?.status ?? 'queued';
+}
+
+// The error itself, with what its type means for jobs that failed while running
+interface BatchItemError {
+  message: string;
+  explanation?: string;
+}
+
+function getItemError(item: BatchItem, job?: GenerationJob): BatchItemError | undefined {
+  if (item.error) return { message: item.error };
+  if (job?.status !== 'failed') return undefined;
+  return {
+    message: job.error || 'AI processing failed',
+    explanation: describeGenerationError(job.errorType),
+  };
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  waiting: 'Waiting',
+  queued: 'Queued',
+  processing: 'Processing',
+  succeeded: 'Done',
+  review: 'Review',
+  failed: 'Failed',
+  canceled: 'Canceled',
+};
+
+const STATUS_CLASSNAMES: Record<BatchItemStatus, string> = {
+  waiting: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  queued: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-200',
+  processing: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-200',
+  succeeded: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-200',
+  review: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-200',
+  canceled: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const FINISHED_STATUSES: BatchItemStatus[] = ['succeeded', 'review', 'failed', 'canceled'];
+
+/**
+ * Applies one prompt and one set of model settings to many photos. Each photo
+ * gets its own server-side job, so a failure only affects that photo.
+ */
+export default function BatchPanel({
+  sessionId,
+  photos,
+  jobs,
+  presets = [],
+  modelDefaults,
+}: BatchPanelProps) {
+  // Starts with every photo that has no output yet
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    photos.filter((photo) => !photo.aiOutputUrl).map((photo) => photo.id)
+  );
+  const {
+    prompt,
+    selectedPreset,
+    presetValues,
+    unfilledVariables,
+    activeModelSelection,
+    setModelSelection,
+    handleSelectPreset,
+    handlePresetValuesChange,
+    handlePromptChange,
+  } = usePresetPrompt({ modelDefaults });
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [starting, setStarting] = useState(false);
+
+  const getJob = (item: BatchItem) => (item.jobId ? jobs[item.jobId] : undefined);
+  const statuses = items.map((item) => getItemStatus(item, getJob(item)));
+  const finishedCount = statuses.filter((status) => FINISHED_STATUSES.includes(status)).length;
+  const succeededCount = statuses.filter((status) => status === 'succeeded').length;
+  const reviewCount = statuses.filter((status) => status === 'review').length;
+  const canceledCount = statuses.filter((status) => status === 'canceled').length;
+  const batchStarted = items.length > 0;
+  const batchFinished = batchStarted && !starting && finishedCount === items.length;
+  const failures = items
+    .map((item) => ({ item, error: getItemError(item, getJob(item)) }))
+    .filter((failure): failure is { item: BatchItem; error: BatchItemError } => !!failure.error);
+
+  const handleToggle = (photoId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(photoId) ? ids.filter((id) => id !== photoId) : [...ids, photoId]
+    );
+  };
+
+  const handleSelectUnprocessed = () => {
+    setSelectedIds(photos.filter((photo) => !photo.aiOutputUrl).map((photo) => photo.id));
+  };
+
+  const handleStart = async () => {
+    // Deleted photos drop out of the selection
+    const photoIds = selectedIds.filter((id) => photos.some((photo) => photo.id === id));
+    if (photoIds.length === 0 || !prompt.trim() || unfilledVariables.length > 0) return;
+
+    setStarting(true);
+    setItems(photoIds.map((photoId) => ({ photoId })));
+
+    // The server queues the jobs; starting them one by one keeps the queue in order
+    for (const photoId of photoIds) {
+      let update: Partial<BatchItem>;
+      try {
+        const jobId = await startGenerationJob(sessionId, photoId, prompt, {
+          presetId: selectedPreset?.id,
+          modelId: activeModelSelection.modelId,
+          settings: activeModelSelection.settings,
+        });
+        update = { jobId };
+      } catch (err) {
+        console.error('Batch item error:', err);
+        update = { error: err instanceof Error ? err.message : 'Failed to start generation' };
+      }
+      setItems((current) =>
+        current.map((item) => (item.photoId === photoId ? { ...item, ...update } : item))
+      );
+    }
+
+    setStarting(false);
+  };
+
+  const handleReset = () => {
+    setItems([]);
+    handleSelectUnprocessed();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Batch Apply</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Run one prompt with the same settings on several photos.
+        </p>
+      </div>
+
+      {!batchStarted ? (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {selectedIds.length} of {photos.length} photos selected
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={handleSelectUnprocessed}
+                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+              >
+                Without Output
+              </button>
+              <button
+                onClick={() => setSelectedIds(photos.map((photo) => photo.id))}
+                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+              >
+                All
+              </button>
+              <button
+                onClick={() => setSelectedIds([])}
+                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+              >
+                None
+              </button>
+            </div>
+          </div>
+
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {photos.map((photo) => {
+              const selected = selectedIds.includes(photo.id);
+              return (
+                <button
+                  key={photo.id}
+                  onClick={() => handleToggle(photo.id)}
+                  className={`relative flex-shrink-0 w-20 h-20 rounded-lg border-2 overflow-hidden transition-colors ${
+                    selected
+                      ? 'border-indigo-500'
+                      : 'border-transparent opacity-60 hover:border-gray-300 dark:hover:border-gray-600'
+                  }`}
+                >
+                  <img src={photo.url} alt="Session photo" className="w-full h-full object-cover" />
+                  {photo.aiOutputUrl && (
+                    <span className="absolute bottom-1 left-1 px-1 rounded bg-green-600 text-white text-[9px] font-medium">
+                      AI
+                    </span>
+                  )}
+                  {selected && (
+                    <span className="absolute top-1 right-1 w-4 h-4 rounded-full bg-indigo-600 text-white text-[10px] flex items-center justify-center">
+                      ✓
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <PresetPicker
+            presets={presets}
+            selectedPreset={selectedPreset}
+            values={presetValues}
+            onSelect={handleSelectPreset}
+            onValuesChange={handlePresetValuesChange}
+          />
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <textarea
+              value={prompt}
+              onChange={(e) => handlePromptChange(e.target.value)}
+              placeholder="Describe the transformation for every selected photo..."
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+              rows={4}
+            />
+            <ModelSettingsPanel
+              id="batch-model"
+              value={activeModelSelection}
+              onChange={setModelSelection}
+            />
+          </div>
+
+          <button
+            onClick={handleStart}
+            disabled={selectedIds.length === 0 || !prompt.trim() || unfilledVariables.length > 0}
+            className="w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+          >
+            Generate for {selectedIds.length} {selectedIds.length === 1 ? 'Photo' : 'Photos'}
+          </button>
+          {unfilledVariables.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {describeUnfilledVariables(unfilledVariables)}
+            </p>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+              <span>{starting ? 'Starting jobs...' : batchFinished ? 'Finished' : 'Running'}</span>
+              <span>
+                {finishedCount} / {items.length}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 transition-all duration-300"
+                style={{ width: `${(finishedCount / items.length) * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+            {items.map((item, index) => {
+              const photo = photos.find((candidate) => candidate.id === item.photoId);
+              const status = statuses[index];
+              return (
+                <div key={item.photoId} className="space-y-1">
+                  <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+                    {photo && (
+                      <img
+                        src={status === 'succeeded' && photo.aiOutputUrl ? photo.aiOutputUrl : photo.url}
+                        alt={`Batch photo ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    )}
+                  </div>
+                  <span
+                    className={`block text-center px-1 py-0.5 rounded text-[10px] font-medium ${STATUS_CLASSNAMES[status]}`}
+                  >
+                    {STATUS_LABELS[status]}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+
+          {batchFinished && (
+            <div
+              className={`rounded-lg p-3 border ${
+                succeededCount < items.length
+                  ? 'bg-red-50 dark:bg-red-900/30 border-red-200 dark:border-red-800'
+                  : 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-800'
+              }`}
+            >
+              <p
+                className={`text-xs font-medium ${
+                  succeededCount < items.length
+                    ? 'text-red-800 dark:text-red-200'
+                    : 'text-green-800 dark:text-green-200'
+                }`}
+              >
+                {succeededCount} of {items.length} photos processed
+                {failures.length > 0 ? `, ${failures.length} failed` : ''}
+                {reviewCount > 0 ? `, ${reviewCount} held for review` : ''}
+                {canceledCount > 0 ? `, ${canceledCount} canceled` : ''}
+              </p>
+              {failures.length > 0 && (
+                <ul className="mt-2 space-y-1">
+                  {failures.map(({ item, error }) => (
+                    <li key={item.photoId} className="text-xs text-red-800 dark:text-red-200">
+                      <span className="font-mono">{item.photoId.slice(0, 8)}</span>:{' '}
+                      {error.explanation && (
+                        <span className="font-medium">{error.explanation} </span>
+                      )}
+                      <span className={error.explanation ? 'opacity-75 break-words' : ''}>
+                        {error.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <button
+            onClick={handleReset}
+            disabled={!batchFinished}
+            className="w-full px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            New Batch
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
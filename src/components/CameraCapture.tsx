@@ -0,0 +1,319 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void; // Called once the visitor accepts the shot
+  onClose: () => void;
+  onUnavailable: (reason: string) => void; // The page falls back to the file input
+}
+
+type FacingMode = 'user' | 'environment';
+
+const TIMER_OPTIONS = [0, 3, 10]; // Seconds
+
+// Quality of the captured frame; the upload queue compresses it further
+const CAPTURE_QUALITY = 0.92;
+
+/**
+ * Whether this browser can show a live camera. Browsers only allow it on
+ * HTTPS (or localhost).
+ */
+export function isCameraSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    window.isSecureContext &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+function describeCameraError(err: unknown): string {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'Camera access was denied. Allow it in your browser settings, or pick a photo instead.';
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return 'No camera was found on this device. Pick a photo instead.';
+  }
+  if (name === 'NotReadableError') {
+    return 'The camera is in use by another app. Close it, or pick a photo instead.';
+  }
+  return 'The camera could not be started. Pick a photo instead.';
+}
+
+/**
+ * Full screen camera view: live preview with face framing guides, front and
+ * back camera switching, an optional countdown, then a preview to retake or
+ * use the shot.
+ */
+export default function CameraCapture({ onCapture, onClose, onUnavailable }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<FacingMode>('user');
+  const [canSwitch, setCanSwitch] = useState(false);
+  const [ready, setReady] = useState(false);
+  const [timer, setTimer] = useState(3);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [showGuides, setShowGuides] = useState(true);
+  const [shot, setShot] = useState<{ file: File; previewUrl: string } | null>(null);
+
+  // (Re)start the stream whenever the camera changes; stop it on close
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setReady(false);
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1920 } },
+        audio: false,
+      })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = mediaStream;
+          await video.play().catch(() => {});
+        }
+
+        // Device labels and counts are only complete once access is granted
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setCanSwitch(devices.filter((device) => device.kind === 'videoinput').length > 1);
+      })
+      .catch((err) => {
+        console.error('Camera error:', err);
+        if (!cancelled) {
+          onUnavailable(describeCameraError(err));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facingMode]);
+
+  // Free the preview image when it's replaced or the view closes
+  useEffect(() => {
+    return () => {
+      if (shot) {
+        URL.revokeObjectURL(shot.previewUrl);
+      }
+    };
+  }, [shot]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Front camera shots are saved mirrored, the way the visitor saw them
+    if (facingMode === 'user') {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0);
+
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          onUnavailable('The photo could not be captured. Pick a photo instead.');
+          return;
+        }
+        const file = new File([blob], `camera_${Date.now()}.jpg`, {
+          type: 'image/jpeg',
+          lastModified: Date.now(),
+        });
+        setShot({ file, previewUrl: URL.createObjectURL(blob) });
+      },
+      'image/jpeg',
+      CAPTURE_QUALITY
+    );
+  };
+
+  // Counts down one second at a time, then takes the shot
+  useEffect(() => {
+    if (countdown === null) return;
+    if (countdown === 0) {
+      setCountdown(null);
+      capture();
+      return;
+    }
+    const timeout = setTimeout(() => setCountdown(countdown - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [countdown]);
+
+  const handleShutter = () => {
+    if (timer > 0) {
+      setCountdown(timer);
+    } else {
+      capture();
+    }
+  };
+
+  const handleUse = () => {
+    if (!shot) return;
+    onCapture(shot.file);
+    setShot(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col">
+      <div className="relative flex-1 overflow-hidden">
+        <video
+          ref={videoRef}
+          playsInline
+          muted
+          onLoadedData={() => setReady(true)}
+          className={`absolute inset-0 w-full h-full object-cover ${
+            facingMode === 'user' ? '-scale-x-100' : ''
+          } ${shot ? 'invisible' : ''}`}
+        />
+
+        {shot && (
+          <img
+            src={shot.previewUrl}
+            alt="Captured photo"
+            className="absolute inset-0 w-full h-full object-contain"
+          />
+        )}
+
+        {!shot && showGuides && (
+          // Oval for the face and a line for the shoulders; the rest is dimmed
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="xMidYMid meet"
+            aria-hidden="true"
+          >
+            <defs>
+              <mask id="face-guide">
+                <rect x="-200" y="-200" width="500" height="500" fill="white" />
+                <ellipse cx="50" cy="42" rx="22" ry="29" fill="black" />
+              </mask>
+            </defs>
+            {/* Larger than the view box, to dim the rest of a tall or wide screen */}
+            <rect
+              x="-200"
+              y="-200"
+              width="500"
+              height="500"
+              fill="rgba(0,0,0,0.35)"
+              mask="url(#face-guide)"
+            />
+            <ellipse
+              cx="50"
+              cy="42"
+              rx="22"
+              ry="29"
+              fill="none"
+              stroke="white"
+              strokeWidth="0.5"
+              strokeDasharray="2 1.5"
+            />
+            <path
+              d="M18 92 Q50 66 82 92"
+              fill="none"
+              stroke="white"
+              strokeWidth="0.5"
+              strokeDasharray="2 1.5"
+            />
+          </svg>
+        )}
+
+        {!shot && !ready && (
+          <div className="absolute inset-0 flex items-center justify-center text-white text-sm animate-pulse">
+            Starting camera...
+          </div>
+        )}
+
+        {countdown !== null && countdown > 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-white text-8xl font-bold drop-shadow-lg">{countdown}</span>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="absolute top-4 left-4 bg-black/60 hover:bg-black/80 text-white rounded-full px-4 py-2 text-sm font-medium transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {shot ? (
+        <div className="flex gap-3 p-4 bg-black">
+          <button
+            onClick={() => setShot(null)}
+            className="flex-1 px-4 py-3 bg-white/20 hover:bg-white/30 text-white rounded-lg font-medium transition-colors"
+          >
+            Retake
+          </button>
+          <button
+            onClick={handleUse}
+            className="flex-1 px-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition-colors"
+          >
+            Use Photo
+          </button>
+        </div>
+      ) : (
+        <div className="p-4 bg-black space-y-3">
+          <div className="flex items-center justify-center gap-2 text-xs">
+            <span className="text-white/70">Timer</span>
+            {TIMER_OPTIONS.map((seconds) => (
+              <button
+                key={seconds}
+                onClick={() => setTimer(seconds)}
+                disabled={countdown !== null}
+                className={`px-3 py-1 rounded-full font-medium transition-colors disabled:opacity-50 ${
+                  timer === seconds ? 'bg-white text-black' : 'bg-white/20 text-white hover:bg-white/30'
+                }`}
+              >
+                {seconds === 0 ? 'Off' : `${seconds}s`}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowGuides(!showGuides)}
+              className={`ml-2 px-3 py-1 rounded-full font-medium transition-colors ${
+                showGuides ? 'bg-white text-black' : 'bg-white/20 text-white hover:bg-white/30'
+              }`}
+            >
+              Guides
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="w-20" />
+            <button
+              onClick={countdown !== null ? () => setCountdown(null) : handleShutter}
+              disabled={!ready}
+              className="w-16 h-16 rounded-full border-4 border-white bg-white/30 hover:bg-white/50 transition-colors disabled:opacity-50 text-white text-xs font-medium"
+              title={countdown !== null ? 'Cancel countdown' : 'Take photo'}
+            >
+              {countdown !== null ? 'Stop' : ''}
+            </button>
+            <div className="w-20 flex justify-end">
+              {canSwitch && (
+                <button
+                  onClick={() => setFacingMode(facingMode === 'user' ? 'environment' : 'user')}
+                  disabled={countdown !== null}
+                  className="px-3 py-2 bg-white/20 hover:bg-white/30 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                  {facingMode === 'user' ? 'Back' : 'Front'}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
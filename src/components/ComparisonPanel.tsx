@@ -0,0 +1,466 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { collection, onSnapshot, query, where } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toGenerationJob } from '@/lib/jobs';
+import { publishAIResponse } from '@/lib/aiResponses';
+import { startComparison, saveEntryAsPreset, toComparison } from '@/lib/comparisons';
+import {
+  describeUnfilledVariables,
+  extractTemplateVariables,
+  renderPromptTemplate,
+} from '@/lib/presets';
+import {
+  applyPresetSettings,
+  describeModelSettings,
+  getDefaultModelSelection,
+  MODELS,
+} from '@/lib/models';
+import ModelSettingsPanel from '@/components/ModelSettingsPanel';
+import type {
+  AIResponse,
+  Comparison,
+  ComparisonEntry,
+  GenerationJob,
+  ModelSelection,
+  Photo,
+  PromptPreset,
+} from '@/types';
+
+interface ComparisonPanelProps {
+  photo: Photo;
+  sessionId: string;
+  responses: AIResponse[]; // The photo's attempts, including comparison outputs
+  presets?: PromptPreset[];
+  modelDefaults?: ModelSelection;
+  disabled?: boolean;
+}
+
+type DraftEntry = Omit<ComparisonEntry, 'jobId' | 'error'>;
+
+const MAX_ENTRIES = 6; // Same cap as the API route
+
+function entryLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * A/B comparison: runs one photo through several prompt/model/settings
+ * combinations and shows the outputs side by side. Comparisons are saved, so
+ * earlier ones can be reopened; their outputs live in the photo's history.
+ */
+export default function ComparisonPanel({
+  photo,
+  sessionId,
+  responses,
+  presets = [],
+  modelDefaults,
+  disabled = false,
+}: ComparisonPanelProps) {
+  const defaultSelection = getDefaultModelSelection(modelDefaults);
+  const newEntry = (index: number, prompt = ''): DraftEntry => ({
+    label: entryLabel(index),
+    prompt,
+    ...defaultSelection,
+  });
+
+  const [comparisons, setComparisons] = useState<Comparison[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<Record<string, GenerationJob>>({});
+  const [drafts, setDrafts] = useState<DraftEntry[]>(() => [newEntry(0), newEntry(1)]);
+  const [starting, setStarting] = useState(false);
+  const [busyIndex, setBusyIndex] = useState<number | null>(null);
+  const [presetNaming, setPresetNaming] = useState<{ index: number; name: string } | null>(null);
+  const [savedPresetIndexes, setSavedPresetIndexes] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Placeholders left in any combination's prompt would reach the model as is
+  const unfilledVariables = Array.from(
+    new Set(drafts.flatMap((draft) => extractTemplateVariables(draft.prompt)))
+  );
+
+  // Subscribe to this photo's comparisons
+  useEffect(() => {
+    const comparisonsQuery = query(
+      collection(db, `sessions/${sessionId}/comparisons`),
+      where('photoId', '==', photo.id)
+    );
+
+    const unsubscribe = onSnapshot(
+      comparisonsQuery,
+      (snapshot) => {
+        const list = snapshot.docs
+          .map((doc) => toComparison(doc.id, doc.data()))
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+        setComparisons(list);
+      },
+      (err) => {
+        console.error('Firestore comparisons error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId, photo.id]);
+
+  // Subscribe to the open comparison's jobs for live status
+  useEffect(() => {
+    if (!selectedId) return;
+
+    const jobsQuery = query(
+      collection(db, `sessions/${sessionId}/generationJobs`),
+      where('comparisonId', '==', selectedId)
+    );
+
+    const unsubscribe = onSnapshot(
+      jobsQuery,
+      (snapshot) => {
+        const byId: Record<string, GenerationJob> = {};
+        snapshot.docs.forEach((doc) => {
+          byId[doc.id] = toGenerationJob(doc.id, doc.data());
+        });
+        setJobs(byId);
+      },
+      (err) => {
+        console.error('Firestore comparison jobs error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [sessionId, selectedId]);
+
+  const selected = comparisons.find((comparison) => comparison.id === selectedId) ?? null;
+
+  const updateDraft = (index: number, changes: Partial<DraftEntry>) => {
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSelectPreset = (index: number, presetId: string) => {
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset) {
+      updateDraft(index, { presetId: undefined });
+      return;
+    }
+
+    updateDraft(index, {
+      ...(preset.settings || preset.modelId ? applyPresetSettings(drafts[index], preset) : {}),
+      presetId: preset.id,
+      prompt: renderPromptTemplate(preset.template, {}),
+    });
+  };
+
+  const openComparison = (comparisonId: string | null) => {
+    setSelectedId(comparisonId);
+    setJobs({});
+    setPresetNaming(null);
+    setSavedPresetIndexes([]);
+    setError(null);
+  };
+
+  const handleRun = async () => {
+    if (drafts.some((draft) => !draft.prompt.trim())) {
+      setError('Every combination needs a prompt');
+      return;
+    }
+    if (unfilledVariables.length > 0) {
+      setError(describeUnfilledVariables(unfilledVariables));
+      return;
+    }
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      const { comparisonId } = await startComparison(sessionId, photo.id, drafts);
+      openComparison(comparisonId);
+    } catch (err) {
+      console.error('Start comparison error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start comparison');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  // Reuse an earlier comparison's combinations as the starting point
+  const handleEditAgain = (comparison: Comparison) => {
+    setDrafts(
+      comparison.entries.map(({ label, prompt, presetId, modelId, settings }) => ({
+        label,
+        prompt,
+        ...(presetId ? { presetId } : {}),
+        modelId,
+        settings,
+      }))
+    );
+    openComparison(null);
+  };
+
+  const handlePublish = async (index: number, response: AIResponse) => {
+    setBusyIndex(index);
+    setError(null);
+
+    try {
+      await publishAIResponse(sessionId, photo.id, response);
+    } catch (err) {
+      console.error('Publish comparison output error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish output');
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  const handleSavePreset = async (
+    index: number,
+    entry: ComparisonEntry,
+    response?: AIResponse
+  ) => {
+    if (!presetNaming?.name.trim()) return;
+
+    setBusyIndex(index);
+    setError(null);
+
+    try {
+      await saveEntryAsPreset(presetNaming.name.trim(), entry, response);
+      setSavedPresetIndexes([...savedPresetIndexes, index]);
+      setPresetNaming(null);
+    } catch (err) {
+      console.error('Save preset error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+    } finally {
+      setBusyIndex(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {comparisons.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => openComparison(null)}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              !selected
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+            }`}
+          >
+            New
+          </button>
+          {comparisons.map((comparison) => (
+            <button
+              key={comparison.id}
+              onClick={() => openComparison(comparison.id)}
+              className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+                selected?.id === comparison.id
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+              }`}
+            >
+              {comparison.createdAt.toLocaleString()} · {comparison.entries.length}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+        </div>
+      )}
+
+      {selected ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+            {selected.entries.map((entry, index) => {
+              const response = responses.find(
+                (r) => r.comparisonId === selected.id && r.comparisonEntry === index
+              );
+              const job = entry.jobId ? jobs[entry.jobId] : undefined;
+              const status = entry.error
+                ? 'failed'
+                : response?.status ?? job?.status ?? 'queued';
+              const published = !!response && photo.aiResponseId === response.id;
+
+              return (
+                <div
+                  key={index}
+                  className={`rounded-lg border p-2 space-y-2 ${
+                    published
+                      ? 'border-green-400 bg-green-50 dark:bg-green-900/20'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
+                >
+                  <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded overflow-hidden">
+                    {response?.outputImageUrl ? (
+                      <img
+                        src={response.outputImageUrl}
+                        alt={`Comparison ${entry.label}`}
+                        className="w-full h-full object-contain"
+                      />
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center p-2 text-center">
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {entry.error || response?.error || job?.error || `${status}...`}
+                        </p>
+                      </div>
+                    )}
+                    <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-indigo-600 text-white text-[10px] font-bold">
+                      {entry.label}
+                    </span>
+                  </div>
+
+                  <p className="text-xs text-gray-700 dark:text-gray-300 line-clamp-3" title={entry.prompt}>
+                    {entry.prompt}
+                  </p>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 truncate">
+                    {MODELS.find((model) => model.id === entry.modelId)?.name ?? entry.modelId}
+                    {describeModelSettings(entry.settings) &&
+                      ` · ${describeModelSettings(entry.settings)}`}
+                  </p>
+
+                  {response?.status === 'succeeded' && (
+                    <div className="flex flex-col gap-1">
+                      {!published && (
+                        <button
+                          onClick={() => handlePublish(index, response)}
+                          disabled={busyIndex === index}
+                          className="px-2 py-1 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-200 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+                        >
+                          Publish
+                        </button>
+                      )}
+                      {savedPresetIndexes.includes(index) ? (
+                        <p className="text-[10px] text-green-700 dark:text-green-300 text-center">
+                          Saved as preset
+                        </p>
+                      ) : presetNaming?.index === index ? (
+                        <div className="flex gap-1">
+                          <input
+                            type="text"
+                            value={presetNaming.name}
+                            onChange={(e) => setPresetNaming({ index, name: e.target.value })}
+                            placeholder="Preset name"
+                            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded text-[10px]"
+                          />
+                          <button
+                            onClick={() => handleSavePreset(index, entry, response)}
+                            disabled={busyIndex === index || !presetNaming.name.trim()}
+                            className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-[10px] font-medium disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => setPresetNaming({ index, name: '' })}
+                          className="px-2 py-1 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded text-[10px] font-medium transition-colors"
+                        >
+                          Save as Preset
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={() => handleEditAgain(selected)}
+            className="w-full px-4 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 transition-colors"
+          >
+            Edit and Run Again
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {drafts.map((draft, index) => (
+            <div
+              key={index}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 p-3 space-y-2"
+            >
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={draft.label}
+                  onChange={(e) => updateDraft(index, { label: e.target.value })}
+                  disabled={starting}
+                  className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded text-sm font-semibold"
+                  aria-label="Label"
+                />
+                {presets.length > 0 && (
+                  <select
+                    value={draft.presetId ?? ''}
+                    onChange={(e) => handleSelectPreset(index, e.target.value)}
+                    disabled={starting}
+                    className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded text-sm"
+                  >
+                    <option value="">Custom prompt</option>
+                    {presets.map((preset) => (
+                      <option key={preset.id} value={preset.id}>
+                        {preset.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {drafts.length > 2 && (
+                  <button
+                    onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                    disabled={starting}
+                    className="px-2 py-1 bg-red-50 hover:bg-red-100 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={draft.prompt}
+                onChange={(e) =>
+                  updateDraft(index, { prompt: e.target.value, presetId: undefined })
+                }
+                disabled={starting}
+                placeholder="Prompt..."
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none disabled:opacity-50 text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+              />
+              <ModelSettingsPanel
+                id={`compare-${photo.id}-${index}`}
+                value={{ modelId: draft.modelId, settings: draft.settings }}
+                disabled={starting}
+                onChange={(selection) => updateDraft(index, selection)}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                setDrafts([...drafts, newEntry(drafts.length, drafts[drafts.length - 1]?.prompt)])
+              }
+              disabled={starting || drafts.length >= MAX_ENTRIES}
+              className="px-4 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+            >
+              Add Combination
+            </button>
+            <button
+              onClick={handleRun}
+              disabled={
+                disabled ||
+                starting ||
+                drafts.some((draft) => !draft.prompt.trim()) ||
+                unfilledVariables.length > 0
+              }
+              className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {starting ? 'Starting...' : `Compare ${drafts.length} Combinations`}
+            </button>
+          </div>
+          {unfilledVariables.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {describeUnfilledVariables(unfilledVariables)}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
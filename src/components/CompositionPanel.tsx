@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { startCompositionJob } from '@/lib/jobs';
+import { getEnabledModel, getDefaultModelSelection } from '@/lib/models';
+import ModelSettingsPanel from '@/components/ModelSettingsPanel';
+import type { Photo, ModelSelection } from '@/types';
+
+interface CompositionPanelProps {
+  sessionId: string;
+  photos: Photo[]; // Photos that can be combined (composites excluded)
+  modelDefaults?: ModelSelection;
+}
+
+export default function CompositionPanel({
+  sessionId,
+  photos,
+  modelDefaults,
+}: CompositionPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState('');
+  const [modelSelection, setModelSelection] = useState<ModelSelection | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeModelSelection = modelSelection ?? getDefaultModelSelection(modelDefaults);
+  const imageRule = getEnabledModel(activeModelSelection.modelId)?.inputs.image;
+  const maxPhotos = imageRule?.type === 'imageList' ? imageRule.maxItems : 1;
+
+  // Deleted photos drop out of the selection
+  const selectedPhotos = selectedIds
+    .map((id) => photos.find((photo) => photo.id === id))
+    .filter((photo): photo is Photo => !!photo);
+
+  const handleToggle = (photoId: string) => {
+    setStatus(null);
+    setSelectedIds((ids) =>
+      ids.includes(photoId)
+        ? ids.filter((id) => id !== photoId)
+        : ids.length < maxPhotos
+        ? [...ids, photoId]
+        : ids
+    );
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = selectedPhotos.map((photo) => photo.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    setSelectedIds(ids);
+  };
+
+  const handleCompose = async () => {
+    if (selectedPhotos.length < 2 || !prompt.trim()) return;
+
+    setStarting(true);
+    setError(null);
+    setStatus(null);
+
+    try {
+      await startCompositionJob(
+        sessionId,
+        selectedPhotos.map((photo) => photo.id),
+        prompt,
+        {
+          modelId: activeModelSelection.modelId,
+          settings: activeModelSelection.settings,
+        }
+      );
+      // Progress shows on the new composite's card
+      setSelectedIds([]);
+      setPrompt('');
+      setStatus('Composite queued. It appears at the top of the photo list.');
+    } catch (err) {
+      console.error('Composition error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start composition');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+          Group Composition
+        </h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Select 2 to {maxPhotos} photos, put them in order and describe the picture to
+          create from them.
+        </p>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {photos.map((photo) => {
+          const position = selectedIds.indexOf(photo.id);
+          return (
+            <button
+              key={photo.id}
+              onClick={() => handleToggle(photo.id)}
+              disabled={starting}
+              className={`relative flex-shrink-0 w-20 h-20 rounded-lg border-2 overflow-hidden transition-colors disabled:opacity-50 ${
+                position >= 0
+                  ? 'border-indigo-500'
+                  : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+              }`}
+            >
+              <img src={photo.url} alt="Session photo" className="w-full h-full object-cover" />
+              {position >= 0 && (
+                <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                  {position + 1}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedPhotos.length > 0 && (
+        <div className="flex gap-3 flex-wrap">
+          {selectedPhotos.map((photo, index) => (
+            <div key={photo.id} className="w-24 space-y-1">
+              <div className="relative w-24 h-24 bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+                <img src={photo.url} alt={`Source ${index + 1}`} className="w-full h-full object-cover" />
+                <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                  {index + 1}
+                </span>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={starting || index === 0}
+                  className="flex-1 py-0.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs disabled:opacity-30"
+                  title="Move earlier"
+                >
+                  ←
+                </button>
+                <button
+                  onClick={() => handleToggle(photo.id)}
+                  disabled={starting}
+                  className="flex-1 py-0.5 bg-red-50 hover:bg-red-100 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 rounded text-xs disabled:opacity-30"
+                  title="Remove"
+                >
+                  ×
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={starting || index === selectedPhotos.length - 1}
+                  className="flex-1 py-0.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs disabled:opacity-30"
+                  title="Move later"
+                >
+                  →
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          disabled={starting}
+          placeholder="e.g. Put these people on a movie poster..."
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none disabled:opacity-50 text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+          rows={4}
+        />
+        <ModelSettingsPanel
+          id="composition-model"
+          value={activeModelSelection}
+          disabled={starting}
+          onChange={setModelSelection}
+        />
+      </div>
+
+      {status && (
+        <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
+          <p className="text-blue-800 dark:text-blue-200 text-xs">{status}</p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+        </div>
+      )}
+
+      <button
+        onClick={handleCompose}
+        disabled={starting || selectedPhotos.length < 2 || !prompt.trim()}
+        className="w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
+      >
+        {starting
+          ? 'Starting...'
+          : `Generate from ${selectedPhotos.length} ${selectedPhotos.length === 1 ? 'Photo' : 'Photos'}`}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState } from 'react';
+import { ref, deleteObject } from 'firebase/storage';
+import { doc, updateDoc, deleteDoc, deleteField } from 'firebase/firestore';
+import { storage, db } from '@/lib/firebase';
+import {
+  getAIResponseStoragePaths,
+  publishAIResponse,
+  approveAIResponse,
+  rejectAIResponse,
+} from '@/lib/aiResponses';
+import { describeGenerationError } from '@/lib/generation-errors';
+import { describeModelSettings } from '@/lib/models';
+import type { AIResponse, Photo } from '@/types';
+
+interface GenerationHistoryProps {
+  photo: Photo;
+  sessionId: string;
+  responses: AIResponse[]; // The photo's attempts, newest first
+  disabled?: boolean;
+  onRefine?: (response: AIResponse) => void; // Branch a refinement from an attempt
+}
+
+const STATUS_STYLES: Record<AIResponse['status'], string> = {
+  processing: 'bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-200',
+  succeeded: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-200',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-200',
+  canceled: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  review: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-200',
+};
+
+export default function GenerationHistory({
+  photo,
+  sessionId,
+  responses,
+  disabled = false,
+  onRefine,
+}: GenerationHistoryProps) {
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Outputs published before aiResponseId existed are matched by storage path
+  const isPublished = (response: AIResponse) =>
+    photo.aiResponseId
+      ? photo.aiResponseId === response.id
+      : !!photo.aiOutputStoragePath &&
+        getAIResponseStoragePaths(response).includes(photo.aiOutputStoragePath);
+
+  const handlePublish = async (response: AIResponse) => {
+    if (!response.outputImageUrl || !response.outputImageStoragePath) return;
+
+    setBusyId(response.id);
+    setError(null);
+
+    try {
+      await publishAIResponse(sessionId, photo.id, response);
+    } catch (err) {
+      console.error('Revert error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish attempt');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReview = async (response: AIResponse, approve: boolean) => {
+    setBusyId(response.id);
+    setError(null);
+
+    try {
+      if (approve) {
+        await approveAIResponse(sessionId, photo.id, response);
+      } else {
+        await rejectAIResponse(sessionId, response);
+      }
+    } catch (err) {
+      console.error('Review error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to review attempt');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (response: AIResponse) => {
+    if (confirmDeleteId !== response.id) {
+      setConfirmDeleteId(response.id);
+      return;
+    }
+
+    setBusyId(response.id);
+    setError(null);
+
+    try {
+      for (const storagePath of getAIResponseStoragePaths(response)) {
+        await deleteObject(ref(storage, storagePath));
+      }
+
+      // Unpublish the output if it came from this attempt
+      if (isPublished(response)) {
+        const photoDoc = doc(db, `sessions/${sessionId}/photos`, photo.id);
+        await updateDoc(photoDoc, {
+          aiOutputUrl: null,
+          aiOutputStoragePath: null,
+          aiVariants: null,
+          aiResponseId: null,
+          aiProcessedAt: null,
+          outputTransform: deleteField(),
+        });
+      }
+
+      await deleteDoc(doc(db, `sessions/${sessionId}/aiResponses`, response.id));
+    } catch (err) {
+      console.error('Delete attempt error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete attempt');
+    } finally {
+      setBusyId(null);
+      setConfirmDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+        </div>
+      )}
+
+      {responses.length === 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">No attempts yet</p>
+      )}
+
+      {responses.map((response) => (
+        <div
+          key={response.id}
+          className={`flex gap-3 p-2 rounded-lg border ${
+            isPublished(response)
+              ? 'border-green-400 bg-green-50 dark:bg-green-900/20'
+              : 'border-gray-200 dark:border-gray-700'
+          }`}
+        >
+          <div className="w-14 h-14 flex-shrink-0 bg-gray-100 dark:bg-gray-900 rounded overflow-hidden">
+            {response.outputImageUrl && (
+              <img
+                src={response.outputImageUrl}
+                alt="Attempt output"
+                className="w-full h-full object-cover"
+              />
+            )}
+          </div>
+
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <span
+                className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${STATUS_STYLES[response.status]}`}
+              >
+                {response.status}
+              </span>
+              <span className="text-[10px] text-gray-500 dark:text-gray-400">
+                {response.createdAt.toLocaleString()}
+              </span>
+              {response.parentResponseId && (
+                <span className="text-[10px] text-indigo-600 dark:text-indigo-400">refinement</span>
+              )}
+              {response.comparisonId && (
+                <span className="text-[10px] text-purple-600 dark:text-purple-400">comparison</span>
+              )}
+            </div>
+            <p className="text-xs text-gray-700 dark:text-gray-300 line-clamp-2" title={response.prompt}>
+              {response.prompt}
+            </p>
+            {response.settings && (
+              <p className="text-[10px] text-gray-500 dark:text-gray-400 truncate">
+                {describeModelSettings(response.settings)}
+              </p>
+            )}
+            {response.status === 'review' && response.moderation && (
+              <p
+                className="text-[10px] text-amber-700 dark:text-amber-300 truncate"
+                title={response.moderation.reason}
+              >
+                Held for review: {response.moderation.reason}
+              </p>
+            )}
+            {response.error && (
+              <p className="text-[10px] text-red-600 dark:text-red-400 truncate" title={response.error}>
+                {response.status === 'failed'
+                  ? describeGenerationError(response.errorType)
+                  : response.error}
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            {response.status === 'review' && (
+              <>
+                <button
+                  onClick={() => handleReview(response, true)}
+                  disabled={busyId === response.id}
+                  className="px-2 py-1 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-200 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+                  title="Approve and publish this output"
+                >
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReview(response, false)}
+                  disabled={busyId === response.id}
+                  className="px-2 py-1 bg-amber-50 hover:bg-amber-100 dark:bg-amber-900/30 dark:hover:bg-amber-900/50 text-amber-700 dark:text-amber-300 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+                  title="Reject and delete this output"
+                >
+                  Reject
+                </button>
+              </>
+            )}
+            {response.status === 'succeeded' && onRefine && (
+              <button
+                onClick={() => onRefine(response)}
+                disabled={disabled || busyId === response.id}
+                className="px-2 py-1 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+                title="Refine starting from this output"
+              >
+                Refine
+              </button>
+            )}
+            {response.status === 'succeeded' && !isPublished(response) && (
+              <button
+                onClick={() => handlePublish(response)}
+                disabled={busyId === response.id}
+                className="px-2 py-1 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-200 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+              >
+                Publish
+              </button>
+            )}
+            <button
+              onClick={() => handleDelete(response)}
+              disabled={busyId === response.id}
+              className="px-2 py-1 bg-red-50 hover:bg-red-100 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 rounded text-[10px] font-medium transition-colors disabled:opacity-50"
+            >
+              {confirmDeleteId === response.id ? 'Confirm' : 'Delete'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { estimateRemainingSeconds } from '@/lib/generation-progress';
+import type { GenerationJob } from '@/types';
+
+interface JobProgressProps {
+  job: GenerationJob;
+}
+
+function formatEta(seconds: number): string {
+  if (seconds < 5) {
+    return 'almost done';
+  }
+  if (seconds < 60) {
+    return `about ${Math.round(seconds)}s left`;
+  }
+  return `about ${Math.round(seconds / 60)} min left`;
+}
+
+/**
+ * Progress bar and ETA for a running job, plus its raw model logs
+ */
+export default function JobProgress({ job }: JobProgressProps) {
+  const [now, setNow] = useState(() => Date.now());
+  const [showLogs, setShowLogs] = useState(false);
+  const running = job.status === 'processing';
+
+  // Re-render every second so the ETA counts down between updates
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const remaining = estimateRemainingSeconds(job, now);
+  // Without progress in the logs, estimate it from the model's usual run time
+  // and stop short of 100% until the job actually finishes
+  const percent = job.progress
+    ? job.progress.percent
+    : job.expectedPredictTime && job.startedAt
+      ? Math.min(
+          ((now - job.startedAt.getTime()) / 1000 / job.expectedPredictTime) * 100,
+          95
+        )
+      : null;
+
+  return (
+    <div className="space-y-2">
+      {running && (
+        <div className="space-y-1">
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 overflow-hidden">
+            {percent === null ? (
+              <div className="bg-indigo-600 h-2 w-full rounded-full animate-pulse"></div>
+            ) : (
+              <div
+                className="bg-indigo-600 h-2 rounded-full transition-all"
+                style={{ width: `${percent}%` }}
+              ></div>
+            )}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-500 dark:text-gray-400">
+            <span>
+              {job.progress
+                ? job.progress.totalSteps
+                  ? `Step ${job.progress.step}/${job.progress.totalSteps} (${job.progress.percent}%)`
+                  : `${job.progress.percent}%`
+                : percent !== null
+                  ? `~${Math.round(percent)}% (estimated)`
+                  : 'Waiting for the model...'}
+            </span>
+            {remaining !== null && <span>{formatEta(remaining)}</span>}
+          </div>
+        </div>
+      )}
+
+      {job.logs && (
+        <div>
+          <button
+            onClick={() => setShowLogs(!showLogs)}
+            className="text-[10px] font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            {showLogs ? 'Hide' : 'Show'} model logs
+          </button>
+          {showLogs && (
+            <pre className="mt-1 max-h-48 overflow-auto bg-gray-900 text-gray-100 rounded-lg p-2 text-[10px] leading-snug whitespace-pre-wrap break-all">
+              {job.logs}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  imageUrl: string; // Image the mask is painted on
+  initialMaskUrl?: string; // Previously saved mask to keep editing
+  saving?: boolean;
+  onSave: (mask: Blob) => void; // PNG, white where the model may change the image
+  onCancel: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+// Painted strokes are shown in this colour, at the canvas opacity below
+const OVERLAY_COLOR = 'rgb(239, 68, 68)';
+
+export default function MaskEditor({
+  imageUrl,
+  initialMaskUrl,
+  saving = false,
+  onSave,
+  onCancel,
+}: MaskEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Size the canvas to the image's natural size so the mask lines up exactly
+  useEffect(() => {
+    setReady(false);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      setReady(true);
+
+      if (initialMaskUrl) {
+        loadMask(canvas, initialMaskUrl).catch((err) => {
+          console.error('Load mask error:', err);
+          setError('Could not load the saved mask');
+        });
+      }
+    };
+    image.onerror = () => setError('Could not load the image');
+    image.src = imageUrl;
+  }, [imageUrl, initialMaskUrl]);
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const from = lastPointRef.current ?? point;
+    context.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.strokeStyle = OVERLAY_COLOR;
+    context.lineWidth = brushSize * (context.canvas.width / context.canvas.clientWidth || 1);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!ready || saving) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+    lastPointRef.current = null;
+    drawTo(getPoint(event));
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawTo(getPoint(event));
+  };
+
+  const handlePointerUp = () => {
+    drawingRef.current = false;
+    lastPointRef.current = null;
+  };
+
+  const handleInvert = () => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+
+    const { width, height } = context.canvas;
+    const pixels = context.getImageData(0, 0, width, height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      pixels.data[i] = 239;
+      pixels.data[i + 1] = 68;
+      pixels.data[i + 2] = 68;
+      pixels.data[i + 3] = 255 - pixels.data[i + 3];
+    }
+    context.putImageData(pixels, 0, 0);
+  };
+
+  const handleClear = () => {
+    const context = canvasRef.current?.getContext('2d');
+    context?.clearRect(0, 0, context.canvas.width, context.canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    // Models expect black and white: white where the image may change
+    const output = document.createElement('canvas');
+    output.width = canvas.width;
+    output.height = canvas.height;
+    const outputContext = output.getContext('2d')!;
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+    let painted = false;
+    for (let i = 0; i < pixels.data.length; i += 4) {
+      const value = pixels.data[i + 3] > 127 ? 255 : 0;
+      painted ||= value > 0;
+      pixels.data[i] = value;
+      pixels.data[i + 1] = value;
+      pixels.data[i + 2] = value;
+      pixels.data[i + 3] = 255;
+    }
+    if (!painted) {
+      setError('Paint the region to change first');
+      return;
+    }
+    outputContext.putImageData(pixels, 0, 0);
+
+    output.toBlob((blob) => {
+      if (blob) {
+        setError(null);
+        onSave(blob);
+      }
+    }, 'image/png');
+  };
+
+  const toolButtonClassName = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 ${
+      active
+        ? 'bg-indigo-600 text-white'
+        : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+        <img src={imageUrl} alt="Image to mask" className="w-full h-auto block select-none" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setTool('brush')}
+          disabled={saving}
+          className={toolButtonClassName(tool === 'brush')}
+        >
+          Brush
+        </button>
+        <button
+          onClick={() => setTool('eraser')}
+          disabled={saving}
+          className={toolButtonClassName(tool === 'eraser')}
+        >
+          Eraser
+        </button>
+        <button
+          onClick={handleInvert}
+          disabled={saving || !ready}
+          className={toolButtonClassName(false)}
+        >
+          Invert
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={saving || !ready}
+          className={toolButtonClassName(false)}
+        >
+          Clear
+        </button>
+        <label className="flex items-center gap-1 text-[10px] text-gray-500 dark:text-gray-400">
+          Size
+          <input
+            type="range"
+            min={5}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            disabled={saving}
+            className="w-20"
+          />
+        </label>
+      </div>
+
+      <p className="text-[10px] text-gray-500 dark:text-gray-400">
+        Paint the region the AI may change; everything else is kept.
+      </p>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving || !ready}
+          className="flex-1 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Mask'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Draws a saved black and white mask back onto the overlay canvas
+ */
+async function loadMask(canvas: HTMLCanvasElement, maskUrl: string): Promise<void> {
+  // Fetched rather than loaded through <img>, so a CORS failure can't taint the canvas
+  const response = await fetch(maskUrl);
+  if (!response.ok) {
+    throw new Error('Failed to load mask');
+  }
+  const image = await createImageBitmap(await response.blob());
+
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const painted = pixels.data[i] > 127;
+    pixels.data[i] = 239;
+    pixels.data[i + 1] = 68;
+    pixels.data[i + 2] = 68;
+    pixels.data[i + 3] = painted ? 255 : 0;
+  }
+  context.putImageData(pixels, 0, 0);
+}
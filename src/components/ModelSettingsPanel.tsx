@@ -0,0 +1,181 @@
+'use client';
+
+import {
+  getEnabledModels,
+  getEnabledModel,
+  filterModelSettings,
+  MODEL_SETTING_FIELDS,
+  ModelDefinition,
+} from '@/lib/models';
+import type { ModelSelection, ModelSettings } from '@/types';
+
+interface ModelSettingsPanelProps {
+  id: string; // Prefix for input IDs, unique per card
+  value: ModelSelection;
+  disabled?: boolean;
+  isSessionDefault?: boolean; // Whether value matches the saved session defaults
+  savingDefault?: boolean;
+  onChange: (value: ModelSelection) => void;
+  onSaveDefault?: () => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg text-xs disabled:opacity-50';
+
+// Fields hidden by another field's value (e.g. width without a custom size) are dropped
+function withoutHiddenFields(model: ModelDefinition, settings: ModelSettings): ModelSettings {
+  const values = settings as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(values).filter(([field]) => {
+      const visibleWhen = model.inputs[field]?.visibleWhen;
+      return !visibleWhen || values[visibleWhen.field] === visibleWhen.value;
+    })
+  );
+}
+
+export default function ModelSettingsPanel({
+  id,
+  value,
+  disabled = false,
+  isSessionDefault = false,
+  savingDefault = false,
+  onChange,
+  onSaveDefault,
+}: ModelSettingsPanelProps) {
+  const models = getEnabledModels();
+  const model = getEnabledModel(value.modelId);
+
+  if (!model) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        No AI model is configured.
+      </p>
+    );
+  }
+
+  const settings = value.settings as Record<string, unknown>;
+  const fields = MODEL_SETTING_FIELDS.filter((field) => {
+    const rule = model.inputs[field];
+    return (
+      rule &&
+      (!rule.visibleWhen || settings[rule.visibleWhen.field] === rule.visibleWhen.value)
+    );
+  });
+
+  const handleModelChange = (modelId: string) => {
+    const nextModel = getEnabledModel(modelId);
+    if (!nextModel) return;
+    // Keep the settings the new model also supports
+    onChange({
+      modelId,
+      settings: { ...nextModel.defaults, ...filterModelSettings(nextModel, value.settings) },
+    });
+  };
+
+  const handleFieldChange = (field: string, fieldValue: string | number | undefined) => {
+    const next: Record<string, unknown> = { ...settings, [field]: fieldValue };
+    if (fieldValue === undefined) {
+      delete next[field];
+    }
+    onChange({ modelId: model.id, settings: withoutHiddenFields(model, next) });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-gray-700 dark:text-gray-300">Model Settings</p>
+        {onSaveDefault && (
+          <button
+            onClick={onSaveDefault}
+            disabled={disabled || isSessionDefault || savingDefault}
+            className="text-[10px] font-medium text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            {isSessionDefault
+              ? 'Session default'
+              : savingDefault
+              ? 'Saving...'
+              : 'Save as session default'}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {models.length > 1 && (
+          <div className="col-span-2">
+            <label
+              htmlFor={`${id}-model`}
+              className="block text-[10px] text-gray-500 dark:text-gray-400 mb-0.5"
+            >
+              Model
+            </label>
+            <select
+              id={`${id}-model`}
+              value={model.id}
+              onChange={(e) => handleModelChange(e.target.value)}
+              disabled={disabled}
+              className={inputClassName}
+            >
+              {models.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {fields.map((field) => {
+          const rule = model.inputs[field];
+          const inputId = `${id}-${field}`;
+          const current = settings[field];
+
+          return (
+            <div key={field}>
+              <label
+                htmlFor={inputId}
+                className="block text-[10px] text-gray-500 dark:text-gray-400 mb-0.5"
+              >
+                {rule.label || field}
+              </label>
+
+              {rule.type === 'string' && rule.options ? (
+                <select
+                  id={inputId}
+                  value={typeof current === 'string' ? current : ''}
+                  onChange={(e) => handleFieldChange(field, e.target.value || undefined)}
+                  disabled={disabled}
+                  className={inputClassName}
+                >
+                  <option value="">Model default</option>
+                  {rule.options.map((option) => (
+                    <option key={option} value={option}>
+                      {rule.optionLabels?.[option] || option}
+                    </option>
+                  ))}
+                </select>
+              ) : rule.type === 'integer' ? (
+                <input
+                  id={inputId}
+                  type="number"
+                  min={rule.min}
+                  max={rule.max}
+                  step={1}
+                  value={typeof current === 'number' ? current : ''}
+                  onChange={(e) =>
+                    handleFieldChange(
+                      field,
+                      e.target.value === '' ? undefined : Math.floor(Number(e.target.value))
+                    )
+                  }
+                  disabled={disabled}
+                  placeholder={field === 'seed' ? 'Random' : `${rule.min}-${rule.max}`}
+                  className={`${inputClassName} placeholder:text-gray-400 dark:placeholder:text-gray-500`}
+                />
+              ) : null}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -3,30 +3,148 @@
 import { useState } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
-import { doc, updateDoc, collection, addDoc, serverTimestamp, deleteDoc } from 'firebase/firestore';
+import {
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  collection,
+  query,
+  where,
+  getDocs,
+} from 'firebase/firestore';
 import { storage, db } from '@/lib/firebase';
-import { runReplicate } from '@/lib/replicate';
-import type { Photo, ReplicateModelInput } from '@/types';
+import { startGenerationJob, bumpGenerationJob } from '@/lib/jobs';
+import { cancelPrediction } from '@/lib/replicate';
+import { describeGenerationError } from '@/lib/generation-errors';
+import { usePresetPrompt } from '@/hooks/usePresetPrompt';
+import { describeUnfilledVariables } from '@/lib/presets';
+import { transformPhotoInput } from '@/lib/photos';
+import { toAIResponse, getAIResponseStoragePaths } from '@/lib/aiResponses';
+import { getEnabledModel, isSameModelSelection, supportsMask } from '@/lib/models';
+import PresetPicker from '@/components/PresetPicker';
+import GenerationHistory from '@/components/GenerationHistory';
+import ComparisonPanel from '@/components/ComparisonPanel';
+import ModelSettingsPanel from '@/components/ModelSettingsPanel';
+import JobProgress from '@/components/JobProgress';
+import RefinementBreadcrumb from '@/components/RefinementBreadcrumb';
+import MaskEditor from '@/components/MaskEditor';
+import TransformEditor from '@/components/TransformEditor';
+import TransformedImage from '@/components/TransformedImage';
+import type {
+  Photo,
+  GenerationJob,
+  PromptPreset,
+  AIOutputVariant,
+  AIResponse,
+  ModelSelection,
+  PhotoTransformOperation,
+  PhotoTransform,
+} from '@/types';
 
 interface PhotoCardProps {
   photo: Photo;
   sessionId: string;
+  job?: GenerationJob; // Most recent generation job for this photo
+  queuePosition?: number; // Position of the job in the session queue
+  presets?: PromptPreset[];
+  modelDefaults?: ModelSelection; // Session-wide model settings
+  sourcePhotos?: Photo[]; // For composites: the combined photos, in order
+  responses?: AIResponse[]; // Every attempt for this photo, newest first
+  usedInComposite?: boolean; // A composite reads this photo, so it can't be deleted
 }
 
-export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
-  const [prompt, setPrompt] = useState('');
-  const [processing, setProcessing] = useState(false);
-  const [aiOutputUrl, setAiOutputUrl] = useState<string | null>(photo.aiOutputUrl || null);
+// Composites read their source photos each time they run
+const COMPOSITE_SOURCE_ERROR = 'This photo is part of a composite. Delete the composite first.';
+
+function describeJobStatus(job?: GenerationJob, queuePosition?: number): string {
+  switch (job?.status) {
+    case 'queued':
+      if (job.auto) {
+        return queuePosition
+          ? `Auto mode: waiting in queue (position ${queuePosition})...`
+          : 'Auto mode: waiting in queue...';
+      }
+      return queuePosition
+        ? `Waiting in queue (position ${queuePosition})...`
+        : 'Waiting in queue...';
+    case 'processing':
+      return `${job.auto ? 'Auto mode' : 'AI Status'}: ${job.predictionStatus || 'starting'}`;
+    case 'succeeded':
+      return job.reviewReason
+        ? `Held for review: ${job.reviewReason}. Approve or reject it in the generation history.`
+        : 'Completed!';
+    case 'failed':
+      return 'Failed';
+    case 'canceled':
+      return 'Canceled';
+    default:
+      return '';
+  }
+}
+
+export default function PhotoCard({
+  photo,
+  sessionId,
+  job,
+  queuePosition,
+  presets = [],
+  modelDefaults,
+  sourcePhotos = [],
+  responses = [],
+  usedInComposite = false,
+}: PhotoCardProps) {
+  const {
+    prompt,
+    selectedPreset,
+    presetValues,
+    unfilledVariables,
+    activeModelSelection,
+    setModelSelection,
+    handleSelectPreset,
+    handlePresetValuesChange,
+    handlePromptChange,
+  } = usePresetPrompt({ modelDefaults });
+  const [starting, setStarting] = useState(false);
+  const [canceling, setCanceling] = useState(false);
+  const [bumping, setBumping] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [savingModelDefaults, setSavingModelDefaults] = useState(false);
+  // Attempt whose output the next generation refines, instead of the photo
+  const [refineFrom, setRefineFrom] = useState<AIResponse | null>(null);
+  const [editingMask, setEditingMask] = useState<'input' | 'output' | null>(null);
+  const [savingMask, setSavingMask] = useState(false);
+  const [useMask, setUseMask] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [status, setStatus] = useState<string>('');
   const [showInputQR, setShowInputQR] = useState(false);
   const [showOutputQR, setShowOutputQR] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<'input' | 'ai' | 'remove' | null>(null);
   const [deletingAi, setDeletingAi] = useState(false);
   const [removingFromDashboard, setRemovingFromDashboard] = useState(false);
-  const [inputRotation, setInputRotation] = useState(0);
-  const [outputRotation, setOutputRotation] = useState(0);
+  const [transformingInput, setTransformingInput] = useState(false);
+  const [editingTransform, setEditingTransform] = useState(false);
+  const [savingTransform, setSavingTransform] = useState(false);
+
+  const aiOutputUrl = photo.aiOutputUrl || null;
+  const isComposite = !!photo.sourcePhotoIds;
+  const jobActive = job?.status === 'queued' || job?.status === 'processing';
+  const processing = starting || jobActive;
+  // The server refuses manual runs until the auto mode job finishes
+  const autoProcessing = jobActive && !!job?.auto;
+  const status = describeJobStatus(job, queuePosition);
+  const displayError = error || (job?.status === 'failed' ? job.error || 'AI processing failed' : null);
+  const errorExplanation =
+    !error && job?.status === 'failed' ? describeGenerationError(job.errorType) : null;
+  const activeModel = getEnabledModel(activeModelSelection.modelId);
+  // Region editing is only offered while an inpainting model is selected
+  const canEditRegion = !isComposite && !!activeModel && supportsMask(activeModel);
+  const maskActive = canEditRegion && useMask && !!photo.mask;
+  // A running job has already read the current input
+  const transformDisabled = transformingInput || processing || editingMask !== null;
 
   // Generate a short URL for QR code
   const getShortDownloadUrl = () => {
@@ -36,127 +154,202 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
     return '';
   };
 
-  const downloadImageFromUrl = async (url: string): Promise<Blob> => {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error('Failed to download image from Replicate');
-    }
-    return response.blob();
-  };
-
   const handleRunAI = async () => {
     if (!prompt.trim()) {
       setError('Please enter a prompt');
       return;
     }
-
-    const modelVersion = process.env.NEXT_PUBLIC_REPLICATE_MODEL_VERSION || '';
-    if (!modelVersion) {
-      setError('Replicate model version not configured');
+    if (unfilledVariables.length > 0) {
+      setError(describeUnfilledVariables(unfilledVariables));
       return;
     }
 
-    setProcessing(true);
+    setStarting(true);
+    setError(null);
+
+    try {
+      // The server runs the whole pipeline; progress arrives through the job document
+      await startGenerationJob(sessionId, photo.id, prompt, {
+        presetId: selectedPreset?.id,
+        variantCount,
+        modelId: activeModelSelection.modelId,
+        settings: activeModelSelection.settings,
+        // A mask painted on an output refines that output
+        parentResponseId: maskActive ? photo.mask!.responseId : refineFrom?.id,
+        maskUrl: maskActive ? photo.mask!.url : undefined,
+      });
+      // The refined output gets published, so the next refinement continues from it
+      setRefineFrom(null);
+    } catch (err) {
+      console.error('AI processing error:', err);
+      setError(err instanceof Error ? err.message : 'AI processing failed');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleSaveModelDefaults = async () => {
+    setSavingModelDefaults(true);
     setError(null);
-    setStatus('Starting AI processing...');
 
     try {
-      // Prepare Replicate model input
-      const modelInput: Partial<ReplicateModelInput> = {
-        prompt: prompt,
-        image: [photo.url], // Use Firebase Storage URL
-        aspect_ratio: 'match_input_image',
-      };
-
-      // Run Replicate (token is now handled by API route)
-      setStatus('Processing with AI...');
-      const output = await runReplicate(
-        modelVersion,
-        modelInput as any,
-        undefined, // No token needed - handled server-side
-        (newStatus) => {
-          setStatus(`AI Status: ${newStatus}`);
-        }
+      await setDoc(
+        doc(db, 'sessions', sessionId),
+        { modelDefaults: activeModelSelection },
+        { merge: true }
       );
+      // Follow the session defaults again, like every other card
+      setModelSelection(null);
+    } catch (err) {
+      console.error('Save model defaults error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save model settings');
+    } finally {
+      setSavingModelDefaults(false);
+    }
+  };
 
-      // Replicate output is usually an array of image URLs
-      let imageUrl: string;
-      if (Array.isArray(output) && output.length > 0) {
-        imageUrl = output[0];
-      } else if (typeof output === 'string') {
-        imageUrl = output;
-      } else {
-        throw new Error('Unexpected output format from Replicate');
-      }
+  const handleSaveMask = async (mask: Blob) => {
+    if (!editingMask) return;
 
-      // Download the AI output image
-      setStatus('Downloading AI output...');
-      const imageBlob = await downloadImageFromUrl(imageUrl);
+    setSavingMask(true);
+    setError(null);
 
-      // Upload to Firebase Storage - stant_images/ai path
-      setStatus('Uploading to storage...');
-      const timestamp = Date.now();
-      const storageRef = ref(
+    try {
+      // Stored next to the photo's own upload
+      const maskRef = ref(
         storage,
-        `stant_images/ai/${sessionId}/${photo.id}_${timestamp}.jpg`
+        `stant_images/input/${sessionId}/${photo.id}_mask_${Date.now()}.png`
       );
-      await uploadBytes(storageRef, imageBlob);
+      await uploadBytes(maskRef, mask, { contentType: 'image/png' });
+      const url = await getDownloadURL(maskRef);
 
-      // Get the Firebase Storage URL
-      const firebaseUrl = await getDownloadURL(storageRef);
-      setAiOutputUrl(firebaseUrl);
+      if (photo.mask) {
+        await deleteObject(ref(storage, photo.mask.storagePath));
+      }
 
-      // Update the photo document with AI output info
-      setStatus('Saving metadata...');
       const photoDoc = doc(db, `sessions/${sessionId}/photos`, photo.id);
       await updateDoc(photoDoc, {
-        aiOutputUrl: firebaseUrl,
-        aiOutputStoragePath: storageRef.fullPath,
-        aiProcessedAt: serverTimestamp(),
+        mask: {
+          url,
+          storagePath: maskRef.fullPath,
+          // Painted on the output: the next generation edits that output
+          ...(editingMask === 'output' && photo.aiResponseId
+            ? { responseId: photo.aiResponseId }
+            : {}),
+        },
       });
 
-      // Save AI response to aiResponses subcollection
-      const aiResponsesCollection = collection(
-        db,
-        `sessions/${sessionId}/aiResponses`
-      );
-      await addDoc(aiResponsesCollection, {
-        photoId: photo.id,
-        prompt: prompt,
-        outputImageUrl: firebaseUrl,
-        outputImageStoragePath: storageRef.fullPath,
-        status: 'succeeded',
-        createdAt: serverTimestamp(),
-      });
+      setEditingMask(null);
+      setUseMask(true);
+    } catch (err) {
+      console.error('Save mask error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save mask');
+    } finally {
+      setSavingMask(false);
+    }
+  };
 
-      setStatus('Completed!');
+  const handleRemoveMask = async () => {
+    if (!photo.mask) return;
+
+    setError(null);
+
+    try {
+      await deleteObject(ref(storage, photo.mask.storagePath));
+      const photoDoc = doc(db, `sessions/${sessionId}/photos`, photo.id);
+      await updateDoc(photoDoc, { mask: null });
     } catch (err) {
-      console.error('AI processing error:', err);
-      setError(err instanceof Error ? err.message : 'AI processing failed');
-      setStatus('Failed');
+      console.error('Remove mask error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove mask');
+    }
+  };
 
-      // Save failed AI response
-      try {
-        const aiResponsesCollection = collection(
-          db,
-          `sessions/${sessionId}/aiResponses`
-        );
-        await addDoc(aiResponsesCollection, {
-          photoId: photo.id,
-          prompt: prompt,
-          status: 'failed',
-          error: err instanceof Error ? err.message : 'Unknown error',
-          createdAt: serverTimestamp(),
-        });
-      } catch (dbErr) {
-        console.error('Failed to save error to database:', dbErr);
-      }
+  // The saved mask, if it was painted on the image being edited
+  const getInitialMaskUrl = (target: 'input' | 'output') => {
+    if (!photo.mask) return undefined;
+    const onOutput = !!photo.mask.responseId;
+    if (target === 'input') {
+      return onOutput ? undefined : photo.mask.url;
+    }
+    return photo.mask.responseId === photo.aiResponseId ? photo.mask.url : undefined;
+  };
+
+  const handleRefine = (response: AIResponse) => {
+    setRefineFrom(response);
+    setError(null);
+  };
+
+  const handleRefinePublished = () => {
+    const published = responses.find((response) => response.id === photo.aiResponseId);
+    if (published) {
+      handleRefine(published);
+    }
+  };
+
+  const handleBumpJob = async () => {
+    if (!job) return;
+
+    setBumping(true);
+    setError(null);
+
+    try {
+      await bumpGenerationJob(sessionId, job.id);
+    } catch (err) {
+      console.error('Bump error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to bump job');
+    } finally {
+      setBumping(false);
+    }
+  };
+
+  const handleCancelAI = async () => {
+    if (!job) return;
+
+    setCanceling(true);
+    setError(null);
+
+    try {
+      // The server records the cancellation in aiResponses
+      await cancelPrediction(job.predictionId, { sessionId, jobId: job.id });
+    } catch (err) {
+      console.error('Cancel error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel AI processing');
     } finally {
-      setProcessing(false);
+      setCanceling(false);
+    }
+  };
+
+  // Published output plus every variant of the latest generation
+  const getAiOutputStoragePaths = (): string[] => {
+    const paths = (photo.aiVariants || []).map((variant) => variant.storagePath);
+    if (photo.aiOutputStoragePath) {
+      paths.push(photo.aiOutputStoragePath);
+    }
+    return Array.from(new Set(paths));
+  };
+
+  const handleSelectVariant = async (variant: AIOutputVariant) => {
+    setError(null);
+
+    try {
+      // Only the published variant is shown on the collage and downloaded
+      const photoDoc = doc(db, `sessions/${sessionId}/photos`, photo.id);
+      await updateDoc(photoDoc, {
+        aiOutputUrl: variant.url,
+        aiOutputStoragePath: variant.storagePath,
+        outputTransform: deleteField(),
+      });
+    } catch (err) {
+      console.error('Select variant error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish variant');
     }
   };
 
   const handleDeleteInput = async () => {
+    if (usedInComposite) {
+      setError(COMPOSITE_SOURCE_ERROR);
+      return;
+    }
     if (showDeleteConfirm !== 'input') {
       setShowDeleteConfirm('input');
       return;
@@ -166,14 +359,34 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
     setError(null);
 
     try {
-      // Delete from Firebase Storage - input image
-      const inputStorageRef = ref(storage, photo.storagePath);
-      await deleteObject(inputStorageRef);
-
-      // Delete AI output from storage if it exists (input deletion deletes everything)
-      if (photo.aiOutputStoragePath) {
-        const outputStorageRef = ref(storage, photo.aiOutputStoragePath);
-        await deleteObject(outputStorageRef);
+      // Delete from Firebase Storage - input image (composites have none;
+      // their source photos are kept)
+      if (photo.storagePath) {
+        const inputStorageRef = ref(storage, photo.storagePath);
+        await deleteObject(inputStorageRef);
+      }
+      if (photo.mask) {
+        await deleteObject(ref(storage, photo.mask.storagePath));
+      }
+
+      // Delete every attempt and its outputs (input deletion deletes everything)
+      const attempts = await getDocs(
+        query(
+          collection(db, `sessions/${sessionId}/aiResponses`),
+          where('photoId', '==', photo.id)
+        )
+      );
+      const outputPaths = new Set(getAiOutputStoragePaths());
+      attempts.docs.forEach((attempt) => {
+        getAIResponseStoragePaths(toAIResponse(attempt.id, attempt.data())).forEach(
+          (outputPath) => outputPaths.add(outputPath)
+        );
+      });
+      for (const outputPath of outputPaths) {
+        await deleteObject(ref(storage, outputPath));
+      }
+      for (const attempt of attempts.docs) {
+        await deleteDoc(attempt.ref);
       }
 
       // Delete from Firestore (removes entire photo document)
@@ -199,10 +412,15 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
     setError(null);
 
     try {
-      // Delete AI output from storage only
-      if (photo.aiOutputStoragePath) {
-        const outputStorageRef = ref(storage, photo.aiOutputStoragePath);
-        await deleteObject(outputStorageRef);
+      // Delete AI output (all variants) from storage only
+      for (const outputPath of getAiOutputStoragePaths()) {
+        await deleteObject(ref(storage, outputPath));
+      }
+
+      // A mask painted on this output has nothing left to edit
+      const maskOnOutput = !!photo.aiResponseId && photo.mask?.responseId === photo.aiResponseId;
+      if (maskOnOutput) {
+        await deleteObject(ref(storage, photo.mask!.storagePath));
       }
 
       // Update Firestore to remove AI fields (keeps input image)
@@ -210,11 +428,18 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
       await updateDoc(photoDoc, {
         aiOutputUrl: null,
         aiOutputStoragePath: null,
+        aiVariants: null,
+        aiResponseId: null,
         aiProcessedAt: null,
+        outputTransform: deleteField(),
+        ...(maskOnOutput ? { mask: null } : {}),
       });
 
-      // Update local state
-      setAiOutputUrl(null);
+      // Its history entry would point at deleted files
+      if (photo.aiResponseId) {
+        await deleteDoc(doc(db, `sessions/${sessionId}/aiResponses`, photo.aiResponseId));
+      }
+
       setShowDeleteConfirm(null);
     } catch (err) {
       console.error('Delete AI error:', err);
@@ -226,6 +451,10 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
   };
 
   const handleRemoveFromDashboard = async () => {
+    if (usedInComposite) {
+      setError(COMPOSITE_SOURCE_ERROR);
+      return;
+    }
     if (showDeleteConfirm !== 'remove') {
       setShowDeleteConfirm('remove');
       return;
@@ -252,20 +481,51 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
     setShowDeleteConfirm(null);
   };
 
-  const handleRotateInput = () => {
-    setInputRotation((prev) => (prev + 90) % 360);
+  // Rewrites the stored input, so the model and downloads get the turned image
+  const handleTransformInput = async (operation: PhotoTransformOperation) => {
+    setTransformingInput(true);
+    setError(null);
+
+    try {
+      await transformPhotoInput(sessionId, photo.id, operation);
+    } catch (err) {
+      console.error('Transform input error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to rotate photo');
+    } finally {
+      setTransformingInput(false);
+    }
   };
 
-  const handleRotateOutput = () => {
-    setOutputRotation((prev) => (prev + 90) % 360);
+  // Display edits only: the stored output stays as the model made it
+  const handleSaveTransform = async (transform: PhotoTransform | null) => {
+    setSavingTransform(true);
+    setError(null);
+
+    try {
+      const photoDoc = doc(db, `sessions/${sessionId}/photos`, photo.id);
+      await updateDoc(photoDoc, { outputTransform: transform ?? deleteField() });
+      setEditingTransform(false);
+    } catch (err) {
+      console.error('Save transform error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save rotation and crop');
+    } finally {
+      setSavingTransform(false);
+    }
   };
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg overflow-hidden border border-gray-200 dark:border-gray-700">
       {/* Card Header with Remove Button */}
       <div className="flex items-center justify-between px-6 pt-4 pb-2 border-b border-gray-200 dark:border-gray-700">
-        <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300">
-          Photo ID: <span className="font-mono text-xs">{photo.id.slice(0, 8)}...</span>
+        <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <span>
+            Photo ID: <span className="font-mono text-xs">{photo.id.slice(0, 8)}...</span>
+          </span>
+          {autoProcessing && (
+            <span className="px-2 py-0.5 rounded-full bg-green-100 dark:bg-green-900/50 text-green-700 dark:text-green-200 text-[10px] font-medium">
+              Auto-processing
+            </span>
+          )}
         </h2>
         <button
           onClick={handleRemoveFromDashboard}
@@ -307,7 +567,9 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
                 />
               </svg>
               <span className="text-red-800 dark:text-red-200 font-medium">
-                {showDeleteConfirm === 'input'
+                {showDeleteConfirm === 'input' && isComposite
+                  ? 'Delete this composite and its AI outputs? The source photos will be kept.'
+                  : showDeleteConfirm === 'input'
                   ? 'Delete the original image? This will also delete the AI output from storage.'
                   : showDeleteConfirm === 'ai'
                   ? 'Delete the AI-generated image from storage? The original will be kept.'
@@ -371,7 +633,7 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
           <div className="flex items-center justify-between">
             <h3 className="font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
               <span className="w-2 h-2 bg-blue-500 rounded-full"></span>
-              Input Image
+              {isComposite ? `Composite of ${photo.sourcePhotoIds!.length} Photos` : 'Input Image'}
             </h3>
             <button
               onClick={handleDeleteInput}
@@ -395,61 +657,160 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
               Delete
             </button>
           </div>
-          <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
-            <img
-              src={photo.url}
-              alt="Input photo"
-              className="w-full h-full object-contain transition-transform duration-300"
-              style={{ transform: `rotate(${inputRotation}deg)` }}
+          {isComposite ? (
+            <div className="grid grid-cols-2 gap-2">
+              {photo.sourcePhotoIds!.map((sourceId, index) => {
+                const source = sourcePhotos.find((candidate) => candidate.id === sourceId);
+                return (
+                  <div
+                    key={sourceId}
+                    className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden"
+                  >
+                    {source ? (
+                      <img
+                        src={source.url}
+                        alt={`Source photo ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 dark:text-gray-400">
+                        Deleted
+                      </p>
+                    )}
+                    <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : editingMask === 'input' ? (
+            <MaskEditor
+              imageUrl={photo.url}
+              initialMaskUrl={getInitialMaskUrl('input')}
+              saving={savingMask}
+              onSave={handleSaveMask}
+              onCancel={() => setEditingMask(null)}
             />
-          </div>
+          ) : (
+            <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+              <img
+                src={photo.url}
+                alt="Input photo"
+                className={`w-full h-full object-contain transition-opacity ${
+                  transformingInput ? 'opacity-50' : ''
+                }`}
+              />
+            </div>
+          )}
 
-          <div className="flex gap-2">
+          {canEditRegion && editingMask !== 'input' && (
             <button
-              onClick={handleRotateInput}
-              className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1"
-              title="Rotate 90°"
+              onClick={() => setEditingMask('input')}
+              disabled={processing || editingMask !== null}
+              className="w-full px-3 py-2 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+              title="Paint the region of this photo the AI may change"
             >
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
-                />
-              </svg>
-              Rotate
-            </button>
-            <a
-              href={photo.url}
-              download
-              target="_blank"
-              rel="noopener noreferrer"
-              className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-center text-xs font-medium transition-colors"
-            >
-              Download
-            </a>
-            <button
-              onClick={() => setShowInputQR(!showInputQR)}
-              className="flex-1 px-3 py-2 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:hover:bg-blue-800 text-blue-700 dark:text-blue-200 rounded-lg text-xs font-medium transition-colors"
-            >
-              {showInputQR ? 'Hide' : 'Show'} QR
+              Edit Region
             </button>
-          </div>
+          )}
 
-          {showInputQR && (
+          {!isComposite && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleTransformInput('rotate_left')}
+                disabled={transformDisabled}
+                className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                title="Rotate 90° counterclockwise"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6"
+                  />
+                </svg>
+                Left
+              </button>
+              <button
+                onClick={() => handleTransformInput('rotate_right')}
+                disabled={transformDisabled}
+                className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                title="Rotate 90° clockwise"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6"
+                  />
+                </svg>
+                Right
+              </button>
+              <button
+                onClick={() => handleTransformInput('flip_horizontal')}
+                disabled={transformDisabled}
+                className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                title="Mirror left to right"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                  />
+                </svg>
+                Flip
+              </button>
+            </div>
+          )}
+
+          {!isComposite && (
+            <div className="flex gap-2">
+              <a
+                href={photo.url}
+                download
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-center text-xs font-medium transition-colors"
+              >
+                Download
+              </a>
+              <button
+                onClick={() => setShowInputQR(!showInputQR)}
+                className="flex-1 px-3 py-2 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900 dark:hover:bg-blue-800 text-blue-700 dark:text-blue-200 rounded-lg text-xs font-medium transition-colors"
+              >
+                {showInputQR ? 'Hide' : 'Show'} QR
+              </button>
+            </div>
+          )}
+
+          {showInputQR && !isComposite && (
             <div className="bg-white dark:bg-gray-900 p-3 rounded-lg border-2 border-blue-200 dark:border-blue-700 flex justify-center">
               <QRCodeSVG value={photo.url} size={150} level="H" />
             </div>
           )}
 
           <p className="text-xs text-gray-500 dark:text-gray-400">
-            Uploaded: {photo.uploadedAt.toLocaleString()}
+            {isComposite ? 'Created' : 'Uploaded'}: {photo.uploadedAt.toLocaleString()}
           </p>
         </div>
 
@@ -457,6 +818,64 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
         <div className="space-y-3">
           <h3 className="font-semibold text-gray-900 dark:text-gray-100">AI Processing</h3>
 
+          <PresetPicker
+            presets={presets}
+            selectedPreset={selectedPreset}
+            values={presetValues}
+            disabled={processing}
+            onSelect={handleSelectPreset}
+            onValuesChange={handlePresetValuesChange}
+          />
+
+          {canEditRegion && photo.mask && (
+            <div className="flex items-center gap-2 p-2 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-800 rounded-lg">
+              <img
+                src={photo.mask.url}
+                alt="Region mask"
+                className="w-10 h-10 rounded object-cover flex-shrink-0 bg-black"
+              />
+              <label className="flex-1 flex items-center gap-2 text-xs text-indigo-800 dark:text-indigo-200">
+                <input
+                  type="checkbox"
+                  checked={useMask}
+                  onChange={(e) => setUseMask(e.target.checked)}
+                  disabled={processing}
+                />
+                Only change the masked region of the{' '}
+                {photo.mask.responseId ? 'AI output' : 'original photo'}
+              </label>
+              <button
+                onClick={handleRemoveMask}
+                disabled={processing || savingMask}
+                className="px-2 py-1 text-xs text-indigo-700 dark:text-indigo-300 hover:underline disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          )}
+
+          {refineFrom && !maskActive && (
+            <div className="flex items-center gap-2 p-2 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-800 rounded-lg">
+              {refineFrom.outputImageUrl && (
+                <img
+                  src={refineFrom.outputImageUrl}
+                  alt="Output being refined"
+                  className="w-10 h-10 rounded object-cover flex-shrink-0"
+                />
+              )}
+              <p className="flex-1 text-xs text-indigo-800 dark:text-indigo-200">
+                Refining this output instead of the original photo
+              </p>
+              <button
+                onClick={() => setRefineFrom(null)}
+                disabled={processing}
+                className="px-2 py-1 text-xs text-indigo-700 dark:text-indigo-300 hover:underline disabled:opacity-50"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           <div>
             <label
               htmlFor={`prompt-${photo.id}`}
@@ -467,7 +886,7 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
             <textarea
               id={`prompt-${photo.id}`}
               value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
+              onChange={(e) => handlePromptChange(e.target.value)}
               disabled={processing}
               placeholder="Describe the transformation you want..."
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none disabled:bg-gray-50 dark:disabled:bg-gray-800 disabled:text-gray-500 dark:disabled:text-gray-400 text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
@@ -475,9 +894,31 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
             />
           </div>
 
+          <div className="flex items-center justify-between gap-2">
+            <label
+              htmlFor={`variants-${photo.id}`}
+              className="text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Variants
+            </label>
+            <select
+              id={`variants-${photo.id}`}
+              value={variantCount}
+              onChange={(e) => setVariantCount(Number(e.target.value))}
+              disabled={processing}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg text-sm disabled:opacity-50"
+            >
+              {[1, 2, 3, 4].map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <button
             onClick={handleRunAI}
-            disabled={processing || !prompt.trim()}
+            disabled={processing || !prompt.trim() || unfilledVariables.length > 0}
             className="w-full px-4 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
           >
             {processing ? (
@@ -507,27 +948,69 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
               'Generate AI Image'
             )}
           </button>
+          {!processing && unfilledVariables.length > 0 && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              {describeUnfilledVariables(unfilledVariables)}
+            </p>
+          )}
+
+          {jobActive && (
+            <div className="flex gap-2">
+              {job?.status === 'queued' && queuePosition !== 1 && (
+                <button
+                  onClick={handleBumpJob}
+                  disabled={bumping}
+                  className="flex-1 px-4 py-2 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                  title="Move to the front of the queue"
+                >
+                  {bumping ? 'Bumping...' : 'Bump Priority'}
+                </button>
+              )}
+              <button
+                onClick={handleCancelAI}
+                disabled={canceling}
+                className="flex-1 px-4 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+              >
+                {canceling ? 'Canceling...' : 'Cancel'}
+              </button>
+            </div>
+          )}
 
-          {status && !error && (
+          {status && !displayError && (
             <div className="bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-3">
               <p className="text-blue-800 dark:text-blue-200 text-xs">{status}</p>
             </div>
           )}
 
-          {error && (
+          {displayError && (
             <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
-              <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+              {errorExplanation && (
+                <p className="text-red-800 dark:text-red-200 text-xs font-medium mb-1">
+                  {errorExplanation}
+                </p>
+              )}
+              <p
+                className={`text-red-800 dark:text-red-200 text-xs ${
+                  errorExplanation ? 'opacity-75 break-words' : 'font-medium'
+                }`}
+              >
+                {displayError}
+              </p>
             </div>
           )}
 
+          {job && (job.status === 'processing' || job.logs) && <JobProgress job={job} />}
+
           <div className="pt-2 border-t border-gray-200 dark:border-gray-700">
-            <p className="text-xs text-gray-500 dark:text-gray-400">
-              <strong>Model Settings:</strong>
-              <br />
-              Size: 1K (2048x2048)
-              <br />
-              Aspect: Match Input
-            </p>
+            <ModelSettingsPanel
+              id={`model-${photo.id}`}
+              value={activeModelSelection}
+              disabled={processing}
+              isSessionDefault={isSameModelSelection(activeModelSelection, modelDefaults)}
+              savingDefault={savingModelDefaults}
+              onChange={setModelSelection}
+              onSaveDefault={handleSaveModelDefaults}
+            />
           </div>
         </div>
 
@@ -565,20 +1048,39 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
 
           {aiOutputUrl ? (
             <>
-              <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
-                <img
-                  src={aiOutputUrl}
-                  alt="AI output"
-                  className="w-full h-full object-contain transition-transform duration-300"
-                  style={{ transform: `rotate(${outputRotation}deg)` }}
+              {editingMask === 'output' ? (
+                <MaskEditor
+                  imageUrl={aiOutputUrl}
+                  initialMaskUrl={getInitialMaskUrl('output')}
+                  saving={savingMask}
+                  onSave={handleSaveMask}
+                  onCancel={() => setEditingMask(null)}
                 />
-              </div>
+              ) : editingTransform ? (
+                <TransformEditor
+                  imageUrl={aiOutputUrl}
+                  initialTransform={photo.outputTransform}
+                  saving={savingTransform}
+                  onSave={handleSaveTransform}
+                  onCancel={() => setEditingTransform(false)}
+                />
+              ) : (
+                <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+                  <TransformedImage
+                    src={aiOutputUrl}
+                    alt="AI output"
+                    transform={photo.outputTransform}
+                    className="w-full h-full"
+                  />
+                </div>
+              )}
 
               <div className="flex gap-2">
                 <button
-                  onClick={handleRotateOutput}
-                  className="px-3 py-2 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1"
-                  title="Rotate 90°"
+                  onClick={() => setEditingTransform(true)}
+                  disabled={editingTransform || editingMask !== null}
+                  className="px-3 py-2 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:hover:bg-green-800 text-green-700 dark:text-green-200 rounded-lg text-xs font-medium transition-colors flex items-center justify-center gap-1 disabled:opacity-50"
+                  title="Rotate, mirror or crop how this output is shown and downloaded"
                 >
                   <svg
                     className="w-4 h-4"
@@ -593,10 +1095,10 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
                       d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
                     />
                   </svg>
-                  Rotate
+                  Rotate / Crop
                 </button>
                 <a
-                  href={aiOutputUrl}
+                  href={`/api/download/${sessionId}/${photo.id}`}
                   download
                   target="_blank"
                   rel="noopener noreferrer"
@@ -612,12 +1114,69 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
                 </button>
               </div>
 
+              {photo.aiResponseId && (
+                <button
+                  onClick={handleRefinePublished}
+                  disabled={processing || refineFrom?.id === photo.aiResponseId}
+                  className="w-full px-3 py-2 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                  title="Use this output as the input of the next generation"
+                >
+                  Refine This
+                </button>
+              )}
+
+              {photo.aiResponseId && canEditRegion && editingMask !== 'output' && (
+                <button
+                  onClick={() => setEditingMask('output')}
+                  disabled={processing || editingMask !== null || editingTransform}
+                  className="w-full px-3 py-2 bg-indigo-50 hover:bg-indigo-100 dark:bg-indigo-900/30 dark:hover:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                  title="Paint the region of this output the AI may change"
+                >
+                  Edit Region
+                </button>
+              )}
+
+              <RefinementBreadcrumb
+                photo={photo}
+                sessionId={sessionId}
+                responses={responses}
+                disabled={processing}
+              />
+
               {showOutputQR && (
                 <div className="bg-white dark:bg-gray-900 p-3 rounded-lg border-2 border-green-200 dark:border-green-700 flex justify-center">
                   <QRCodeSVG value={getShortDownloadUrl()} size={200} level="M" />
                 </div>
               )}
 
+              {photo.aiVariants && photo.aiVariants.length > 1 && (
+                <div className="flex gap-2">
+                  {photo.aiVariants.map((variant, index) => (
+                    <button
+                      key={variant.storagePath}
+                      onClick={() => handleSelectVariant(variant)}
+                      disabled={variant.url === aiOutputUrl}
+                      title={
+                        variant.url === aiOutputUrl
+                          ? 'Published variant'
+                          : `Publish variant ${index + 1}`
+                      }
+                      className={`flex-1 aspect-square rounded-lg overflow-hidden border-2 transition-colors ${
+                        variant.url === aiOutputUrl
+                          ? 'border-green-500'
+                          : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                      }`}
+                    >
+                      <img
+                        src={variant.url}
+                        alt={`AI variant ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {photo.aiProcessedAt && (
                 <p className="text-xs text-gray-500 dark:text-gray-400">
                   Processed: {photo.aiProcessedAt.toLocaleString()}
@@ -649,6 +1208,49 @@ export default function PhotoCard({ photo, sessionId }: PhotoCardProps) {
           )}
         </div>
       </div>
+
+      {/* A/B comparison */}
+      {!isComposite && (
+        <div className="px-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => setShowComparison(!showComparison)}
+            className="w-full py-3 text-left text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+          >
+            {showComparison ? 'Hide' : 'Show'} A/B Compare
+          </button>
+          {showComparison && (
+            <div className="pb-4">
+              <ComparisonPanel
+                photo={photo}
+                sessionId={sessionId}
+                responses={responses}
+                presets={presets}
+                modelDefaults={modelDefaults}
+                disabled={autoProcessing}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Generation history */}
+      <div className="px-6 pb-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          className="w-full py-3 text-left text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100 transition-colors"
+        >
+          {showHistory ? 'Hide' : 'Show'} Generation History
+        </button>
+        {showHistory && (
+          <GenerationHistory
+            photo={photo}
+            sessionId={sessionId}
+            responses={responses}
+            disabled={processing}
+            onRefine={handleRefine}
+          />
+        )}
+      </div>
     </div>
   );
 }
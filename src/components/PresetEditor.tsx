@@ -0,0 +1,324 @@
+'use client';
+
+import { useState } from 'react';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  increment,
+} from 'firebase/firestore';
+import { storage, db } from '@/lib/firebase';
+import { extractTemplateVariables } from '@/lib/presets';
+import { DEFAULT_MODEL_ID, MODELS, ModelDefinition } from '@/lib/models';
+import type { PromptPreset } from '@/types';
+
+interface PresetEditorProps {
+  presets: PromptPreset[];
+}
+
+// Settings the form edits; the rest of a preset's settings are kept as saved
+const FORM_FIELDS = { size: 'size', aspectRatio: 'aspect_ratio' } as const;
+
+// Presets are edited against the model they were saved with
+function getPresetModel(preset?: PromptPreset) {
+  return MODELS.find((model) => model.id === (preset?.modelId || DEFAULT_MODEL_ID));
+}
+
+// Choices for a field, or undefined when the model doesn't take it
+function getFieldOptions(model: ModelDefinition | undefined, field: string) {
+  const rule = model?.inputs[field];
+  return rule?.type === 'string' && rule.options
+    ? { options: rule.options, labels: rule.optionLabels ?? {} }
+    : undefined;
+}
+
+const emptyForm = {
+  name: '',
+  template: '',
+  size: '',
+  aspectRatio: '',
+};
+
+export default function PresetEditor({ presets }: PresetEditorProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const editingPreset = presets.find((preset) => preset.id === editingId);
+  const variables = extractTemplateVariables(form.template);
+  const model = getPresetModel(editingPreset);
+  const size = getFieldOptions(model, FORM_FIELDS.size);
+  const aspectRatio = getFieldOptions(model, FORM_FIELDS.aspectRatio);
+  // Custom sizes need a width and height, which only presets saved with one have
+  const sizeOptions = size?.options.filter(
+    (option) => option !== 'custom' || editingPreset?.settings?.size === 'custom'
+  );
+
+  const handleEdit = (preset: PromptPreset) => {
+    setEditingId(preset.id);
+    setForm({
+      name: preset.name,
+      template: preset.template,
+      size: preset.settings?.size || '',
+      aspectRatio: preset.settings?.aspect_ratio || '',
+    });
+    setThumbnailFile(null);
+    setError(null);
+  };
+
+  const handleReset = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setThumbnailFile(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.template.trim()) {
+      setError('Name and prompt template are required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const settings: Record<string, unknown> = { ...editingPreset?.settings };
+      for (const [key, field] of Object.entries(FORM_FIELDS)) {
+        if (!model?.inputs[field]) continue;
+        const value = form[key as keyof typeof FORM_FIELDS];
+        if (value) {
+          settings[field] = value;
+        } else {
+          delete settings[field];
+        }
+      }
+      // Width and height only apply to a custom size
+      if (settings.size !== 'custom') {
+        delete settings.width;
+        delete settings.height;
+      }
+
+      const data: Record<string, unknown> = {
+        name: form.name.trim(),
+        template: form.template.trim(),
+        settings,
+        updatedAt: serverTimestamp(),
+      };
+
+      // Upload the example thumbnail - stant_images/presets path
+      if (thumbnailFile) {
+        const extension = thumbnailFile.name.split('.').pop() || 'jpg';
+        const thumbnailRef = ref(
+          storage,
+          `stant_images/presets/${Date.now()}.${extension}`
+        );
+        await uploadBytes(thumbnailRef, thumbnailFile);
+        data.thumbnailUrl = await getDownloadURL(thumbnailRef);
+        data.thumbnailStoragePath = thumbnailRef.fullPath;
+
+        if (editingPreset?.thumbnailStoragePath) {
+          await deleteObject(ref(storage, editingPreset.thumbnailStoragePath));
+        }
+      }
+
+      if (editingId) {
+        // Every edit bumps the version recorded on aiResponses
+        await updateDoc(doc(db, 'presets', editingId), {
+          ...data,
+          version: increment(1),
+        });
+      } else {
+        await addDoc(collection(db, 'presets'), {
+          ...data,
+          version: 1,
+          createdAt: serverTimestamp(),
+        });
+      }
+
+      handleReset();
+    } catch (err) {
+      console.error('Preset save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: PromptPreset) => {
+    setError(null);
+
+    try {
+      await deleteDoc(doc(db, 'presets', preset.id));
+      if (preset.thumbnailStoragePath) {
+        await deleteObject(ref(storage, preset.thumbnailStoragePath));
+      }
+      if (editingId === preset.id) {
+        handleReset();
+      }
+    } catch (err) {
+      console.error('Preset delete error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete preset');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">
+        Prompt Presets
+      </h2>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Preset list */}
+        <div className="space-y-2">
+          {presets.length === 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No presets yet. Create one to reuse prompts across photos.
+            </p>
+          )}
+          {presets.map((preset) => (
+            <div
+              key={preset.id}
+              className={`flex items-center gap-3 p-2 rounded-lg border ${
+                editingId === preset.id
+                  ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/30'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="w-12 h-12 flex-shrink-0 bg-gray-100 dark:bg-gray-900 rounded overflow-hidden">
+                {preset.thumbnailUrl && (
+                  <img
+                    src={preset.thumbnailUrl}
+                    alt={preset.name}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                  {preset.name}{' '}
+                  <span className="text-xs text-gray-400">v{preset.version}</span>
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {preset.template}
+                </p>
+              </div>
+              <button
+                onClick={() => handleEdit(preset)}
+                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded text-xs font-medium transition-colors"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => handleDelete(preset)}
+                className="px-2 py-1 bg-red-50 hover:bg-red-100 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 rounded text-xs font-medium transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Preset form */}
+        <div className="space-y-3">
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="Preset name, e.g. Pixar character"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+          />
+          <textarea
+            value={form.template}
+            onChange={(e) => setForm({ ...form, template: e.target.value })}
+            placeholder="Turn the {gender} into a Pixar character in front of {background}"
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+          />
+          {variables.length > 0 && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Variables: {variables.map((name) => `{${name}}`).join(', ')}
+            </p>
+          )}
+
+          {editingPreset?.modelId && model && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Settings for {model.name}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2">
+            {size && sizeOptions && (
+              <select
+                value={form.size}
+                onChange={(e) => setForm({ ...form, size: e.target.value })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg text-sm"
+              >
+                <option value="">Size: default</option>
+                {sizeOptions.map((option) => (
+                  <option key={option} value={option}>
+                    Size: {size.labels[option] || option}
+                  </option>
+                ))}
+              </select>
+            )}
+            {aspectRatio && (
+              <select
+                value={form.aspectRatio}
+                onChange={(e) => setForm({ ...form, aspectRatio: e.target.value })}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg text-sm"
+              >
+                <option value="">Aspect: default</option>
+                {aspectRatio.options.map((option) => (
+                  <option key={option} value={option}>
+                    Aspect: {aspectRatio.labels[option] || option}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            Example thumbnail
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setThumbnailFile(e.target.files?.[0] || null)}
+              className="block w-full mt-1 text-xs"
+            />
+          </label>
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save New Version' : 'Create Preset'}
+            </button>
+            {editingId && (
+              <button
+                onClick={handleReset}
+                disabled={saving}
+                className="px-4 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { extractTemplateVariables } from '@/lib/presets';
+import type { PromptPreset } from '@/types';
+
+interface PresetPickerProps {
+  presets: PromptPreset[];
+  selectedPreset: PromptPreset | null;
+  values: Record<string, string>; // Template variable values
+  disabled?: boolean;
+  onSelect: (preset: PromptPreset | null) => void;
+  onValuesChange: (values: Record<string, string>) => void;
+}
+
+export default function PresetPicker({
+  presets,
+  selectedPreset,
+  values,
+  disabled = false,
+  onSelect,
+  onValuesChange,
+}: PresetPickerProps) {
+  if (presets.length === 0) {
+    return null;
+  }
+
+  const variables = selectedPreset ? extractTemplateVariables(selectedPreset.template) : [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {presets.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onSelect(selectedPreset?.id === preset.id ? null : preset)}
+            disabled={disabled}
+            title={preset.template}
+            className={`flex-shrink-0 w-16 text-center rounded-lg border-2 overflow-hidden transition-colors disabled:opacity-50 ${
+              selectedPreset?.id === preset.id
+                ? 'border-indigo-500'
+                : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+            }`}
+          >
+            <div className="w-full h-12 bg-gray-100 dark:bg-gray-900">
+              {preset.thumbnailUrl && (
+                <img
+                  src={preset.thumbnailUrl}
+                  alt={preset.name}
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </div>
+            <p className="text-[10px] leading-tight text-gray-700 dark:text-gray-300 truncate px-1 py-0.5">
+              {preset.name}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {variables.map((name) => (
+        <input
+          key={name}
+          type="text"
+          value={values[name] || ''}
+          onChange={(e) => onValuesChange({ ...values, [name]: e.target.value })}
+          disabled={disabled}
+          placeholder={name}
+          className="w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent text-xs placeholder:text-gray-400 dark:placeholder:text-gray-500"
+        />
+      ))}
+    </div>
+  );
+}
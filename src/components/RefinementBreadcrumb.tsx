@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { getRefinementChain, publishAIResponse } from '@/lib/aiResponses';
+import type { AIResponse, Photo } from '@/types';
+
+interface RefinementBreadcrumbProps {
+  photo: Photo;
+  sessionId: string;
+  responses: AIResponse[];
+  disabled?: boolean;
+}
+
+/**
+ * The chain of refinements leading to the published output. Clicking a step
+ * publishes it; refining from there starts a new branch.
+ */
+export default function RefinementBreadcrumb({
+  photo,
+  sessionId,
+  responses,
+  disabled = false,
+}: RefinementBreadcrumbProps) {
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chain = getRefinementChain(responses, photo.aiResponseId);
+  if (chain.length < 2) {
+    return null;
+  }
+
+  const handlePublish = async (response: AIResponse) => {
+    setPublishingId(response.id);
+    setError(null);
+
+    try {
+      await publishAIResponse(sessionId, photo.id, response);
+    } catch (err) {
+      console.error('Publish step error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish step');
+    } finally {
+      setPublishingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1 overflow-x-auto pb-1">
+        <span className="flex-shrink-0 text-[10px] text-gray-500 dark:text-gray-400">Original</span>
+        {chain.map((response, index) => {
+          const current = response.id === photo.aiResponseId;
+          return (
+            <div key={response.id} className="flex items-center gap-1 flex-shrink-0">
+              <span className="text-gray-400 dark:text-gray-500 text-xs">›</span>
+              <button
+                onClick={() => handlePublish(response)}
+                disabled={disabled || current || publishingId !== null}
+                title={current ? `${response.prompt} (published)` : `Publish: ${response.prompt}`}
+                className={`relative w-9 h-9 rounded border-2 overflow-hidden transition-colors disabled:cursor-default ${
+                  current
+                    ? 'border-green-500'
+                    : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                } ${publishingId === response.id ? 'opacity-50' : ''}`}
+              >
+                {response.outputImageUrl && (
+                  <img
+                    src={response.outputImageUrl}
+                    alt={`Step ${index + 1}`}
+                    className="w-full h-full object-cover"
+                  />
+                )}
+                <span className="absolute bottom-0 right-0 px-0.5 bg-black/60 text-white text-[9px] leading-tight">
+                  {index + 1}
+                </span>
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-[10px] text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import TransformedImage from '@/components/TransformedImage';
+import {
+  CROP_ASPECTS,
+  IDENTITY_TRANSFORM,
+  getCenteredCrop,
+  isIdentityTransform,
+  mirrorTransform,
+  moveCrop,
+  rotateTransform,
+} from '@/lib/transforms';
+import type { PhotoTransform } from '@/types';
+
+interface TransformEditorProps {
+  imageUrl: string; // Stored image the transform is applied to
+  initialTransform?: PhotoTransform;
+  saving?: boolean;
+  onSave: (transform: PhotoTransform | null) => void; // null: show the image as stored
+  onCancel: () => void;
+}
+
+export default function TransformEditor({
+  imageUrl,
+  initialTransform,
+  saving = false,
+  onSave,
+  onCancel,
+}: TransformEditorProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [transform, setTransform] = useState<PhotoTransform>(
+    initialTransform ?? IDENTITY_TRANSFORM
+  );
+  // Aspect picked in this editor; null for a crop saved earlier
+  const [aspectId, setAspectId] = useState<string | null>(
+    initialTransform?.crop ? null : 'original'
+  );
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  const handleAspect = (id: string) => {
+    const aspect = CROP_ASPECTS.find((candidate) => candidate.id === id);
+    if (!aspect || !size) return;
+    setAspectId(id);
+    const crop = getCenteredCrop(aspect.ratio, transform, size.width, size.height);
+    setTransform({ rotation: transform.rotation, flip: transform.flip, ...(crop ? { crop } : {}) });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY };
+  };
+
+  // Drags the crop across the stored image
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const last = dragRef.current;
+    const frame = frameRef.current;
+    if (!last || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    const dx = (event.clientX - last.x) / rect.width;
+    const dy = (event.clientY - last.y) / rect.height;
+    dragRef.current = { x: event.clientX, y: event.clientY };
+    setTransform((current) =>
+      current.crop ? { ...current, crop: moveCrop(current.crop, dx, dy) } : current
+    );
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const buttonClassName = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 ${
+      active
+        ? 'bg-indigo-600 text-white'
+        : 'bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200'
+    }`;
+
+  const crop = transform.crop;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center">
+          <div ref={frameRef} className="relative overflow-hidden">
+            <img
+              src={imageUrl}
+              alt="Stored output"
+              onLoad={(e) =>
+                setSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+              className="block max-w-full h-auto select-none"
+              draggable={false}
+            />
+            {crop && (
+              <div
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move touch-none"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+                title="Drag to move the crop"
+              />
+            )}
+          </div>
+        </div>
+        <div className="relative aspect-square bg-gray-100 dark:bg-gray-900 rounded-lg overflow-hidden">
+          <TransformedImage
+            src={imageUrl}
+            alt="Result"
+            transform={transform}
+            className="w-full h-full"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setTransform((current) => rotateTransform(current, -90))}
+          disabled={saving}
+          className={buttonClassName(false)}
+          title="Rotate 90° counterclockwise"
+        >
+          Rotate Left
+        </button>
+        <button
+          onClick={() => setTransform((current) => rotateTransform(current, 90))}
+          disabled={saving}
+          className={buttonClassName(false)}
+          title="Rotate 90° clockwise"
+        >
+          Rotate Right
+        </button>
+        <button
+          onClick={() => setTransform(mirrorTransform)}
+          disabled={saving}
+          className={buttonClassName(false)}
+          title="Mirror left to right"
+        >
+          Mirror
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] text-gray-500 dark:text-gray-400">Crop</span>
+        {CROP_ASPECTS.map((aspect) => (
+          <button
+            key={aspect.id}
+            onClick={() => handleAspect(aspect.id)}
+            disabled={saving || !size}
+            className={buttonClassName(aspectId === aspect.id)}
+          >
+            {aspect.label}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-gray-500 dark:text-gray-400">
+        The stored output is kept; the dashboard, the collage and downloads show the result on the right.
+      </p>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          disabled={saving}
+          className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 rounded-lg text-xs font-medium border border-gray-300 dark:border-gray-600 transition-colors disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(isIdentityTransform(transform) ? null : transform)}
+          disabled={saving}
+          className="flex-1 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
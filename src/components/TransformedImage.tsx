@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { getTransformGeometry, isIdentityTransform } from '@/lib/transforms';
+import type { PhotoTransform } from '@/types';
+
+interface TransformedImageProps {
+  src: string;
+  alt: string;
+  transform?: PhotoTransform;
+  fit?: 'contain' | 'cover';
+  className?: string; // Sizing classes, applied to the img or the svg
+}
+
+/**
+ * Shows an image with its display transform. The transform is drawn as an
+ * SVG, which needs the image's natural size, so the image is loaded as a
+ * hidden img first.
+ */
+export default function TransformedImage({
+  src,
+  alt,
+  transform,
+  fit = 'contain',
+  className = '',
+}: TransformedImageProps) {
+  const [size, setSize] = useState<{ src: string; width: number; height: number } | null>(null);
+  const needsTransform = !!transform && !isIdentityTransform(transform);
+
+  if (!needsTransform || !size || size.src !== src) {
+    return (
+      <img
+        src={src}
+        alt={alt}
+        onLoad={(e) =>
+          setSize({
+            src,
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight,
+          })
+        }
+        className={`${className} ${fit === 'cover' ? 'object-cover' : 'object-contain'} ${
+          needsTransform ? 'invisible' : ''
+        }`}
+      />
+    );
+  }
+
+  const geometry = getTransformGeometry(transform, size.width, size.height);
+  return (
+    <svg
+      viewBox={`0 0 ${geometry.width} ${geometry.height}`}
+      preserveAspectRatio={fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet'}
+      role="img"
+      aria-label={alt}
+      className={className}
+    >
+      <image
+        href={src}
+        width={size.width}
+        height={size.height}
+        transform={geometry.svgTransform}
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import {
+  collection,
+  doc,
+  documentId,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  deleteField,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toUsageTotals, formatCost, formatPredictTime } from '@/lib/usage';
+import type { UsageTotals } from '@/types';
+
+interface UsagePanelProps {
+  sessionId: string;
+  usage?: UsageTotals; // This session's totals
+  budgetUsd?: number; // This session's cap, if set
+}
+
+interface UsageRow {
+  id: string; // Day or session ID
+  usage: UsageTotals;
+}
+
+/**
+ * Estimated generation cost for this session and the last few stand days,
+ * plus the session's budget cap
+ */
+export default function UsagePanel({ sessionId, usage, budgetUsd }: UsagePanelProps) {
+  const [days, setDays] = useState<UsageRow[]>([]);
+  const [topSessions, setTopSessions] = useState<UsageRow[]>([]);
+  const [budgetInput, setBudgetInput] = useState(budgetUsd ? String(budgetUsd) : '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Subscribe to the most recent daily totals
+  useEffect(() => {
+    const daysQuery = query(
+      collection(db, 'usageDays'),
+      orderBy(documentId(), 'desc'),
+      limit(7)
+    );
+
+    const unsubscribe = onSnapshot(
+      daysQuery,
+      (snapshot) => {
+        setDays(
+          snapshot.docs.map((doc) => ({ id: doc.id, usage: toUsageTotals(doc.get('usage')) }))
+        );
+      },
+      (err) => {
+        console.error('Firestore usage days error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  // Subscribe to the sessions that cost the most
+  useEffect(() => {
+    const sessionsQuery = query(
+      collection(db, 'sessions'),
+      orderBy('usage.estimatedCost', 'desc'),
+      limit(5)
+    );
+
+    const unsubscribe = onSnapshot(
+      sessionsQuery,
+      (snapshot) => {
+        setTopSessions(
+          snapshot.docs.map((doc) => ({ id: doc.id, usage: toUsageTotals(doc.get('usage')) }))
+        );
+      },
+      (err) => {
+        console.error('Firestore usage sessions error:', err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  const handleSaveBudget = async () => {
+    const value = budgetInput.trim() ? Number(budgetInput) : 0;
+    if (!Number.isFinite(value) || value < 0) {
+      setError('Budget must be a positive amount');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      await setDoc(
+        doc(db, 'sessions', sessionId),
+        { budgetUsd: value > 0 ? value : deleteField() },
+        { merge: true }
+      );
+    } catch (err) {
+      console.error('Save budget error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totals = usage ?? toUsageTotals(undefined);
+  const budgetUsedPercent = budgetUsd
+    ? Math.min(100, (totals.estimatedCost / budgetUsd) * 100)
+    : 0;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Usage</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Costs are estimates from model run time and output count, not a Replicate invoice.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">This Session</h3>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
+              <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                {formatCost(totals.estimatedCost)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">estimated</p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
+              <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                {totals.predictions}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">predictions</p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
+              <p className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+                {formatPredictTime(totals.predictTime)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">run time</p>
+            </div>
+          </div>
+
+          {budgetUsd ? (
+            <div className="space-y-1">
+              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full transition-all ${
+                    budgetUsedPercent >= 100 ? 'bg-red-500' : 'bg-indigo-600'
+                  }`}
+                  style={{ width: `${budgetUsedPercent}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatCost(totals.estimatedCost)} of {formatCost(budgetUsd)} budget used
+                {budgetUsedPercent >= 100 && ' — new generations are refused'}
+              </p>
+            </div>
+          ) : null}
+
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              disabled={saving}
+              placeholder="Session budget (USD)"
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50 text-sm placeholder:text-gray-400 dark:placeholder:text-gray-500"
+            />
+            <button
+              onClick={handleSaveBudget}
+              disabled={saving}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 dark:disabled:bg-gray-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Set Budget'}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Leave empty to use the default cap (SESSION_BUDGET_USD), if any.
+          </p>
+
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-3">
+              <p className="text-red-800 dark:text-red-200 text-xs font-medium">{error}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">By Day</h3>
+            {days.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No usage recorded yet</p>
+            ) : (
+              <UsageTable rows={days} />
+            )}
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Top Sessions
+            </h3>
+            {topSessions.length === 0 ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No usage recorded yet</p>
+            ) : (
+              <UsageTable rows={topSessions} highlightId={sessionId} />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function UsageTable({ rows, highlightId }: { rows: UsageRow[]; highlightId?: string }) {
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={row.id}
+            className={`border-b border-gray-100 dark:border-gray-700 last:border-0 ${
+              row.id === highlightId ? 'font-semibold' : ''
+            }`}
+          >
+            <td className="py-1 font-mono text-gray-700 dark:text-gray-300">{row.id}</td>
+            <td className="py-1 text-right text-gray-500 dark:text-gray-400">
+              {row.usage.predictions} runs
+            </td>
+            <td className="py-1 text-right text-gray-500 dark:text-gray-400">
+              {formatPredictTime(row.usage.predictTime)}
+            </td>
+            <td className="py-1 text-right text-gray-900 dark:text-gray-100">
+              {formatCost(row.usage.estimatedCost)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
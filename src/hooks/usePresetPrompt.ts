@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { applyPresetSettings, getDefaultModelSelection } from '@/lib/models';
+import { extractTemplateVariables, renderPromptTemplate } from '@/lib/presets';
+import type { ModelSelection, PromptPreset } from '@/types';
+
+interface PresetPromptOptions {
+  modelDefaults?: ModelSelection; // Followed until the operator changes the model
+  initialPrompt?: string;
+  initialPreset?: PromptPreset | null;
+  initialModelSelection?: ModelSelection | null;
+}
+
+/**
+ * State behind a preset picker, a prompt box and a model settings panel.
+ * Picking a preset fills in its prompt and settings; editing the prompt by
+ * hand drops the preset.
+ */
+export function usePresetPrompt({
+  modelDefaults,
+  initialPrompt = '',
+  initialPreset = null,
+  initialModelSelection = null,
+}: PresetPromptOptions = {}) {
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [selectedPreset, setSelectedPreset] = useState<PromptPreset | null>(initialPreset);
+  const [presetValues, setPresetValues] = useState<Record<string, string>>({});
+  // Null follows the session defaults until the operator changes something
+  const [modelSelection, setModelSelection] = useState<ModelSelection | null>(
+    initialModelSelection
+  );
+
+  const activeModelSelection = modelSelection ?? getDefaultModelSelection(modelDefaults);
+  // Placeholders would reach the model as is, so the prompt can't be sent yet
+  const unfilledVariables = extractTemplateVariables(prompt);
+
+  const handleSelectPreset = (preset: PromptPreset | null) => {
+    setSelectedPreset(preset);
+    setPresetValues({});
+    setPrompt(preset ? renderPromptTemplate(preset.template, {}) : '');
+
+    // Show the preset's model and settings in the panel so they're what gets sent
+    if (preset?.settings || preset?.modelId) {
+      setModelSelection(applyPresetSettings(activeModelSelection, preset));
+    }
+  };
+
+  const handlePresetValuesChange = (values: Record<string, string>) => {
+    setPresetValues(values);
+    if (selectedPreset) {
+      setPrompt(renderPromptTemplate(selectedPreset.template, values));
+    }
+  };
+
+  const handlePromptChange = (value: string) => {
+    // Hand-edited prompts no longer come from the preset
+    setSelectedPreset(null);
+    setPrompt(value);
+  };
+
+  return {
+    prompt,
+    selectedPreset,
+    presetValues,
+    unfilledVariables,
+    activeModelSelection,
+    setModelSelection,
+    handleSelectPreset,
+    handlePresetValuesChange,
+    handlePromptChange,
+  };
+}
@@ -0,0 +1,117 @@
+import { Timestamp, DocumentData, doc, updateDoc, deleteField } from 'firebase/firestore';
+import { ref, deleteObject } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase';
+import type { AIResponse } from '@/types';
+
+/**
+ * Maps an aiResponses document to an AIResponse
+ */
+export function toAIResponse(id: string, data: DocumentData): AIResponse {
+  return {
+    id,
+    photoId: data.photoId,
+    prompt: data.prompt,
+    responseText: data.responseText,
+    responseJson: data.responseJson,
+    outputImageUrl: data.outputImageUrl,
+    outputImageStoragePath: data.outputImageStoragePath,
+    outputs: data.outputs,
+    status: data.status,
+    error: data.error,
+    errorType: data.errorType,
+    moderation: data.moderation,
+    presetId: data.presetId,
+    presetVersion: data.presetVersion,
+    modelId: data.modelId,
+    modelVersion: data.modelVersion,
+    settings: data.settings,
+    parentResponseId: data.parentResponseId,
+    maskUrl: data.maskUrl,
+    comparisonId: data.comparisonId,
+    comparisonEntry: data.comparisonEntry,
+    createdAt:
+      data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+  };
+}
+
+/**
+ * Storage paths of every image an attempt produced
+ */
+export function getAIResponseStoragePaths(response: AIResponse): string[] {
+  const paths = (response.outputs || []).map((output) => output.storagePath);
+  if (response.outputImageStoragePath) {
+    paths.push(response.outputImageStoragePath);
+  }
+  return Array.from(new Set(paths));
+}
+
+/**
+ * Refinement chain ending at an attempt, oldest step first. The chain stops
+ * at parents that were deleted.
+ */
+export function getRefinementChain(responses: AIResponse[], responseId?: string): AIResponse[] {
+  const chain: AIResponse[] = [];
+  const seen = new Set<string>();
+  let current = responses.find((response) => response.id === responseId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    const parentId = current.parentResponseId;
+    current = parentId ? responses.find((response) => response.id === parentId) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Publishes an attempt's output on its photo (revert, or pick a refinement step)
+ */
+export async function publishAIResponse(
+  sessionId: string,
+  photoId: string,
+  response: AIResponse
+): Promise<void> {
+  if (!response.outputImageUrl || !response.outputImageStoragePath) {
+    throw new Error('This attempt has no output to publish');
+  }
+
+  await updateDoc(doc(db, `sessions/${sessionId}/photos`, photoId), {
+    aiOutputUrl: response.outputImageUrl,
+    aiOutputStoragePath: response.outputImageStoragePath,
+    aiVariants: response.outputs || null,
+    aiResponseId: response.id,
+    // Rotation and crop were chosen for the previous output
+    outputTransform: deleteField(),
+  });
+}
+
+/**
+ * Clears an output held by moderation and publishes it
+ */
+export async function approveAIResponse(
+  sessionId: string,
+  photoId: string,
+  response: AIResponse
+): Promise<void> {
+  await updateDoc(doc(db, `sessions/${sessionId}/aiResponses`, response.id), {
+    status: 'succeeded',
+  });
+  await publishAIResponse(sessionId, photoId, response);
+}
+
+/**
+ * Rejects an output held by moderation. Its images are deleted; the entry
+ * stays in the history with the reason it was flagged.
+ */
+export async function rejectAIResponse(sessionId: string, response: AIResponse): Promise<void> {
+  for (const storagePath of getAIResponseStoragePaths(response)) {
+    await deleteObject(ref(storage, storagePath));
+  }
+
+  await updateDoc(doc(db, `sessions/${sessionId}/aiResponses`, response.id), {
+    status: 'rejected',
+    error: response.moderation?.reason || 'Rejected by operator',
+    outputImageUrl: null,
+    outputImageStoragePath: null,
+    outputs: null,
+  });
+}
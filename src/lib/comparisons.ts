@@ -0,0 +1,90 @@
+import {
+  Timestamp,
+  DocumentData,
+  addDoc,
+  collection,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '@/lib/firebase';
+import type { AIResponse, Comparison, ComparisonEntry } from '@/types';
+
+/**
+ * Starts an A/B comparison of one photo (via API route). Each entry runs as
+ * its own generation job; outputs land in the photo's history unpublished.
+ */
+export async function startComparison(
+  sessionId: string,
+  photoId: string,
+  entries: Omit<ComparisonEntry, 'jobId' | 'error'>[]
+): Promise<{ comparisonId: string; entries: ComparisonEntry[] }> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'compare', sessionId, photoId, entries }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start comparison');
+  }
+
+  return response.json();
+}
+
+/**
+ * Copies an attempt's output next to the preset thumbnails, so it outlives
+ * the attempt and is deleted along with the preset
+ */
+async function copyThumbnail(response: AIResponse): Promise<Record<string, string>> {
+  const image = await fetch(response.outputImageUrl!);
+  if (!image.ok) {
+    throw new Error('Failed to copy the output for the preset thumbnail');
+  }
+
+  const extension = response.outputImageStoragePath?.split('.').pop() || 'png';
+  const thumbnailRef = ref(storage, `stant_images/presets/${Date.now()}.${extension}`);
+  await uploadBytes(thumbnailRef, await image.blob());
+  return {
+    thumbnailUrl: await getDownloadURL(thumbnailRef),
+    thumbnailStoragePath: thumbnailRef.fullPath,
+  };
+}
+
+/**
+ * Saves a comparison entry as a new preset, with its model and settings and
+ * its output as the thumbnail
+ */
+export async function saveEntryAsPreset(
+  name: string,
+  entry: ComparisonEntry,
+  response?: AIResponse
+): Promise<string> {
+  const thumbnail = response?.outputImageUrl ? await copyThumbnail(response) : {};
+  const presetRef = await addDoc(collection(db, 'presets'), {
+    name,
+    template: entry.prompt,
+    modelId: entry.modelId,
+    settings: entry.settings,
+    ...thumbnail,
+    version: 1,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return presetRef.id;
+}
+
+/**
+ * Maps a comparisons document to a Comparison
+ */
+export function toComparison(id: string, data: DocumentData): Comparison {
+  return {
+    id,
+    photoId: data.photoId,
+    entries: data.entries || [],
+    createdAt:
+      data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+  };
+}
@@ -0,0 +1,143 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { getOrientationTransform, readExifOrientation } from '@/lib/exif';
+
+// 32x16 JPEGs with a red 8x8 block in the top-left corner of the stored
+// pixels, each tagged with one orientation in Intel (II) or Motorola (MM) order
+const FIXTURES = path.resolve(__dirname, '../test/fixtures/exif');
+const WIDTH = 32;
+const HEIGHT = 16;
+const BLOCK = 8;
+
+type Corner = 'top-left' | 'top-right' | 'bottom-right' | 'bottom-left';
+
+// Where the stored top-left corner ends up once the image is upright (EXIF spec)
+const UPRIGHT_CORNER: Record<number, Corner> = {
+  1: 'top-left',
+  2: 'top-right',
+  3: 'bottom-right',
+  4: 'bottom-left',
+  5: 'top-left',
+  6: 'top-right',
+  7: 'bottom-right',
+  8: 'bottom-left',
+};
+
+function readFixture(orientation: number, byteOrder: 'ii' | 'mm'): Buffer {
+  return readFileSync(path.join(FIXTURES, `orientation-${orientation}-${byteOrder}.jpg`));
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function cornerOf(x: number, y: number, width: number, height: number): Corner {
+  const vertical = y < height / 2 ? 'top' : 'bottom';
+  const horizontal = x < width / 2 ? 'left' : 'right';
+  return `${vertical}-${horizontal}`;
+}
+
+// Maps the centre of the red block through the canvas transform
+function transformedBlockCorner(orientation: number): Corner {
+  const { width, height, matrix } = getOrientationTransform(orientation, WIDTH, HEIGHT);
+  const [a, b, c, d, e, f] = matrix;
+  const x = BLOCK / 2;
+  const y = BLOCK / 2;
+  return cornerOf(a * x + c * y + e, b * x + d * y + f, width, height);
+}
+
+// Where sharp's own EXIF handling puts the red block
+async function decodedBlockCorner(image: Buffer): Promise<Corner> {
+  const { data, info } = await sharp(image).rotate().raw().toBuffer({ resolveWithObject: true });
+  let sumX = 0;
+  let sumY = 0;
+  let count = 0;
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      const index = (y * info.width + x) * info.channels;
+      if (data[index] > 200 && data[index + 1] < 80 && data[index + 2] < 80) {
+        sumX += x;
+        sumY += y;
+        count++;
+      }
+    }
+  }
+  return cornerOf(sumX / count, sumY / count, info.width, info.height);
+}
+
+describe('readExifOrientation', () => {
+  for (const byteOrder of ['ii', 'mm'] as const) {
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      it(`reads orientation ${orientation} (${byteOrder.toUpperCase()})`, () => {
+        expect(readExifOrientation(toArrayBuffer(readFixture(orientation, byteOrder)))).toBe(
+          orientation
+        );
+      });
+    }
+  }
+
+  it('finds the tag in the first 64 KB, as preprocessImage reads it', () => {
+    const fixture = readFixture(6, 'mm');
+    expect(readExifOrientation(toArrayBuffer(fixture.subarray(0, 64 * 1024)))).toBe(6);
+  });
+
+  it('treats JPEGs without EXIF as upright', async () => {
+    const plain = await sharp({
+      create: { width: 4, height: 2, channels: 3, background: '#ffffff' },
+    })
+      .jpeg()
+      .toBuffer();
+    expect(readExifOrientation(toArrayBuffer(plain))).toBe(1);
+  });
+
+  it('treats other formats and truncated files as upright', async () => {
+    const png = await sharp({
+      create: { width: 4, height: 2, channels: 3, background: '#ffffff' },
+    })
+      .png()
+      .toBuffer();
+    expect(readExifOrientation(toArrayBuffer(png))).toBe(1);
+    expect(readExifOrientation(toArrayBuffer(readFixture(6, 'ii').subarray(0, 12)))).toBe(1);
+    expect(readExifOrientation(new ArrayBuffer(0))).toBe(1);
+  });
+});
+
+describe('getOrientationTransform', () => {
+  for (let orientation = 1; orientation <= 8; orientation++) {
+    it(`turns orientation ${orientation} upright`, async () => {
+      const upright = getOrientationTransform(orientation, WIDTH, HEIGHT);
+      const sideways = orientation >= 5;
+
+      expect({ width: upright.width, height: upright.height }).toEqual(
+        sideways ? { width: HEIGHT, height: WIDTH } : { width: WIDTH, height: HEIGHT }
+      );
+      expect(transformedBlockCorner(orientation)).toBe(UPRIGHT_CORNER[orientation]);
+      // Same result as a real decoder applying the tag
+      expect(await decodedBlockCorner(readFixture(orientation, 'ii'))).toBe(
+        UPRIGHT_CORNER[orientation]
+      );
+    });
+  }
+
+  it('keeps every stored pixel inside the upright canvas', () => {
+    for (let orientation = 1; orientation <= 8; orientation++) {
+      const { width, height, matrix } = getOrientationTransform(orientation, WIDTH, HEIGHT);
+      const [a, b, c, d, e, f] = matrix;
+      for (const [x, y] of [
+        [0, 0],
+        [WIDTH, 0],
+        [0, HEIGHT],
+        [WIDTH, HEIGHT],
+      ]) {
+        const ux = a * x + c * y + e;
+        const uy = b * x + d * y + f;
+        expect(ux).toBeGreaterThanOrEqual(0);
+        expect(ux).toBeLessThanOrEqual(width);
+        expect(uy).toBeGreaterThanOrEqual(0);
+        expect(uy).toBeLessThanOrEqual(height);
+      }
+    }
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * EXIF orientation: reading it from JPEG files and undoing it on a canvas
+ */
+
+// Canvas transform [a, b, c, d, e, f] (see CanvasRenderingContext2D.transform)
+export type CanvasMatrix = [number, number, number, number, number, number];
+
+export interface OrientationTransform {
+  width: number; // Size of the upright image
+  height: number;
+  matrix: CanvasMatrix; // Draws the stored pixels upright
+}
+
+const ORIENTATION_TAG = 0x0112;
+
+// 2x1 JPEG tagged with orientation 6 (rotate 90° clockwise)
+const ORIENTATION_TEST_IMAGE =
+  '/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wBDAFA3PEY8MlBGQUZaVVBfeMiCeG5uePWvuZHI////////////////////////////////////////////////////2wBDAVVaWnhpeOuCguv/////////////////////////////////////////////////////////////////////////wAARCAABAAIDASIAAhEBAxEB/8QAFQABAQAAAAAAAAAAAAAAAAAAAAT/xAAUEAEAAAAAAAAAAAAAAAAAAAAA/8QAFAEBAAAAAAAAAAAAAAAAAAAAAP/EABQRAQAAAAAAAAAAAAAAAAAAAAD/2gAMAwEAAhEDEQA/ALQAf//Z';
+
+function readTiffOrientation(view: DataView, tiffStart: number, end: number): number {
+  if (tiffStart + 8 > end) {
+    return 1;
+  }
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return 1;
+  }
+  const little = byteOrder === 0x4949; // "II" = Intel, "MM" = Motorola
+  if (view.getUint16(tiffStart + 2, little) !== 0x2a) {
+    return 1;
+  }
+
+  const ifdStart = tiffStart + view.getUint32(tiffStart + 4, little);
+  if (ifdStart + 2 > end) {
+    return 1;
+  }
+  const entryCount = view.getUint16(ifdStart, little);
+  for (let index = 0; index < entryCount; index++) {
+    const entry = ifdStart + 2 + index * 12;
+    if (entry + 12 > end) {
+      break;
+    }
+    if (view.getUint16(entry, little) === ORIENTATION_TAG) {
+      const orientation = view.getUint16(entry + 8, little);
+      return orientation >= 1 && orientation <= 8 ? orientation : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Orientation (1-8) stored in a JPEG's EXIF data; 1 (upright) when the file
+ * isn't a JPEG or has no orientation tag. The EXIF block sits at the start
+ * of the file, so the first 64 KB are enough.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return 1;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      // Not a segment marker, or the image data has started
+      return 1;
+    }
+    const length = view.getUint16(offset + 2);
+    const end = Math.min(offset + 2 + length, view.byteLength);
+
+    // APP1 starting with "Exif\0\0"
+    if (
+      marker === 0xffe1 &&
+      offset + 10 <= end &&
+      view.getUint32(offset + 4) === 0x45786966 &&
+      view.getUint16(offset + 8) === 0
+    ) {
+      return readTiffOrientation(view, offset + 10, end);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+/**
+ * Canvas size and transform that draw a stored image of the given size
+ * upright, for each of the eight EXIF orientations
+ */
+export function getOrientationTransform(
+  orientation: number,
+  width: number,
+  height: number
+): OrientationTransform {
+  switch (orientation) {
+    case 2: // Mirrored horizontally
+      return { width, height, matrix: [-1, 0, 0, 1, width, 0] };
+    case 3: // Rotated 180°
+      return { width, height, matrix: [-1, 0, 0, -1, width, height] };
+    case 4: // Mirrored vertically
+      return { width, height, matrix: [1, 0, 0, -1, 0, height] };
+    case 5: // Mirrored horizontally, then rotated 270° clockwise
+      return { width: height, height: width, matrix: [0, 1, 1, 0, 0, 0] };
+    case 6: // Rotated 90° clockwise
+      return { width: height, height: width, matrix: [0, 1, -1, 0, height, 0] };
+    case 7: // Mirrored horizontally, then rotated 90° clockwise
+      return { width: height, height: width, matrix: [0, -1, -1, 0, height, width] };
+    case 8: // Rotated 270° clockwise
+      return { width: height, height: width, matrix: [0, -1, 1, 0, 0, width] };
+    default:
+      return { width, height, matrix: [1, 0, 0, 1, 0, 0] };
+  }
+}
+
+let autoOrientation: Promise<boolean> | null = null;
+
+/**
+ * Whether this browser's createImageBitmap already applies EXIF orientation.
+ * Older browsers hand back the stored pixels, which then need turning.
+ */
+export function browserAppliesExifOrientation(): Promise<boolean> {
+  autoOrientation ??= (async () => {
+    try {
+      const bytes = Uint8Array.from(atob(ORIENTATION_TEST_IMAGE), (char) => char.charCodeAt(0));
+      const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }), {
+        imageOrientation: 'from-image',
+      });
+      const applied = bitmap.width === 1 && bitmap.height === 2;
+      bitmap.close();
+      return applied;
+    } catch {
+      return false;
+    }
+  })();
+  return autoOrientation;
+}
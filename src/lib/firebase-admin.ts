@@ -1,14 +1,19 @@
 import { initializeApp, getApps, cert, App } from 'firebase-admin/app';
 import { getFirestore, Firestore } from 'firebase-admin/firestore';
+import { getStorage, Storage } from 'firebase-admin/storage';
 
 let app: App;
 let adminDb: Firestore;
+let adminBucket: ReturnType<Storage['bucket']>;
 
 // Initialize Firebase Admin SDK for server-side use
 if (!getApps().length) {
   const projectId = process.env.FIREBASE_ADMIN_PROJECT_ID;
   const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
   const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY;
+  const storageBucket =
+    process.env.FIREBASE_ADMIN_STORAGE_BUCKET ||
+    process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
 
   if (projectId && clientEmail && privateKey) {
     // Initialize with individual service account credentials
@@ -19,6 +24,7 @@ if (!getApps().length) {
         // Replace escaped newlines in private key
         privateKey: privateKey.replace(/\\n/g, '\n'),
       }),
+      storageBucket,
     });
   } else {
     throw new Error(
@@ -30,5 +36,7 @@ if (!getApps().length) {
 }
 
 adminDb = getFirestore(app);
+// Default bucket, shared with the client SDK (stant_images/...)
+adminBucket = getStorage(app).bucket();
 
-export { app, adminDb };
+export { app, adminDb, adminBucket };
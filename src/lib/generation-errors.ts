@@ -0,0 +1,133 @@
+import type { GenerationErrorType } from '@/types';
+
+/**
+ * Error from any step of a generation, classified so callers can decide
+ * whether to retry and what to tell the operator
+ */
+export class GenerationError extends Error {
+  type: GenerationErrorType;
+  status?: number; // HTTP status, when the error came from an API response
+
+  constructor(type: GenerationErrorType, message: string, status?: number) {
+    super(message);
+    this.name = 'GenerationError';
+    this.type = type;
+    this.status = status;
+  }
+}
+
+const ERROR_DESCRIPTIONS: Record<GenerationErrorType, string> = {
+  rate_limited: 'The AI service is busy right now. Wait a moment and try again.',
+  invalid_input: 'The model rejected the request. Check the prompt and settings.',
+  model_failure: 'The model failed while generating the image. Try again or reword the prompt.',
+  nsfw: 'The result was blocked by the safety filter. Try a different prompt.',
+  timeout: 'The generation took too long and was stopped. Try again.',
+  network: 'Could not reach the AI service. Check the connection and try again.',
+  budget_exceeded: 'The budget for this session or event is used up. Raise the cap to continue.',
+  unknown: 'Something went wrong while generating the image.',
+};
+
+// Prediction errors with these words come from the model's safety checker
+const NSFW_PATTERN = /nsfw|sensitive|safety|flagged|inappropriate/i;
+
+/**
+ * Human-readable explanation of an error type for the dashboard
+ */
+export function describeGenerationError(type?: GenerationErrorType): string {
+  return ERROR_DESCRIPTIONS[type || 'unknown'];
+}
+
+/**
+ * Transient errors are worth retrying; the rest fail the same way again
+ */
+export function isRetryableError(type: GenerationErrorType): boolean {
+  return type === 'rate_limited' || type === 'network';
+}
+
+/**
+ * Classifies a non-OK HTTP response by its status code
+ */
+export function classifyHttpError(status: number, message: string): GenerationError {
+  if (status === 429) {
+    return new GenerationError('rate_limited', message, status);
+  }
+  if (status === 402) {
+    return new GenerationError('budget_exceeded', message, status);
+  }
+  if (status === 408 || status === 504) {
+    return new GenerationError('timeout', message, status);
+  }
+  if (status >= 500) {
+    // Upstream outages behave like network failures: retry later
+    return new GenerationError('network', message, status);
+  }
+  if (status >= 400) {
+    return new GenerationError('invalid_input', message, status);
+  }
+  return new GenerationError('unknown', message, status);
+}
+
+/**
+ * Classifies the error reported by a failed prediction
+ */
+export function classifyPredictionError(error: unknown): GenerationError {
+  const message = typeof error === 'string' ? error : JSON.stringify(error ?? 'Unknown error');
+  if (NSFW_PATTERN.test(message)) {
+    return new GenerationError('nsfw', message);
+  }
+  return new GenerationError('model_failure', message);
+}
+
+/**
+ * Turns anything thrown during a generation into a GenerationError
+ */
+export function classifyError(err: unknown): GenerationError {
+  if (err instanceof GenerationError) {
+    return err;
+  }
+
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return classifyHttpError(status, message);
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (err instanceof TypeError) {
+    return new GenerationError('network', message);
+  }
+  return new GenerationError('unknown', message);
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: GenerationError) => boolean;
+}
+
+/**
+ * Runs fn, retrying transient failures with exponential backoff and full jitter
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    shouldRetry = (error) => isRetryableError(error.type),
+  }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const error = classifyError(err);
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
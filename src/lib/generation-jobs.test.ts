@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGenerationJob, runGenerationJob } from '@/lib/generation-jobs';
+import { adminDb } from '@/lib/firebase-admin';
+import { RequestValidationError } from '@/lib/replicate-validation';
+import type { FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/firestore', async () => {
+  const { FieldValue } = await import('@/test/firestore');
+  return { FieldValue };
+});
+vi.mock('firebase-admin/storage', async () => {
+  const { getDownloadURL } = await import('@/test/firestore');
+  return { getDownloadURL };
+});
+
+const db = adminDb as unknown as FakeFirestore;
+
+const SESSION_ID = 'session-1';
+const PHOTO_ID = 'photo-1';
+const OTHER_BUCKET_MASK = 'https://firebasestorage.googleapis.com/v0/b/other-bucket/o/mask.png?alt=media';
+
+function jobs() {
+  return db.list(`sessions/${SESSION_ID}/generationJobs`);
+}
+
+function createWithPreset(settings: Record<string, unknown>, modelId = 'seedream-4') {
+  db.set('presets/preset-1', { name: 'Watercolor', template: 'A watercolor', version: 3, settings });
+  return createGenerationJob({
+    sessionId: SESSION_ID,
+    photoId: PHOTO_ID,
+    prompt: 'A watercolor',
+    presetId: 'preset-1',
+    modelId,
+  });
+}
+
+async function rejection(promise: Promise<unknown>) {
+  const err = await promise.then(
+    () => {
+      throw new Error('Expected a RequestValidationError');
+    },
+    (err: unknown) => err
+  );
+  expect(err).toBeInstanceOf(RequestValidationError);
+  const { code, field, status, message } = err as RequestValidationError;
+  return { code, field, status, message };
+}
+
+describe('createGenerationJob presets', () => {
+  beforeEach(() => {
+    db.docs.clear();
+    db.set(`sessions/${SESSION_ID}`, {});
+    db.set(`sessions/${SESSION_ID}/photos/${PHOTO_ID}`, { url: 'https://example.com/input.jpg' });
+  });
+
+  it('merges the preset settings between the model defaults and the operator settings', async () => {
+    db.set('presets/preset-1', { name: 'Square', version: 3, settings: { size: '4K', aspect_ratio: '1:1' } });
+
+    const jobId = await createGenerationJob({
+      sessionId: SESSION_ID,
+      photoId: PHOTO_ID,
+      prompt: 'A watercolor',
+      presetId: 'preset-1',
+      settings: { size: '1K' },
+    });
+
+    expect(db.get(`sessions/${SESSION_ID}/generationJobs/${jobId}`)).toMatchObject({
+      presetId: 'preset-1',
+      presetVersion: 3,
+      settings: { size: '1K', aspect_ratio: '1:1' },
+    });
+  });
+
+  it('leaves out settings saved for another model', async () => {
+    const jobId = await createWithPreset({ seed: 7, num_outputs: 4 });
+
+    expect(db.get(`sessions/${SESSION_ID}/generationJobs/${jobId}`)?.settings).toEqual({
+      size: '2K',
+      aspect_ratio: 'match_input_image',
+      seed: 7,
+    });
+  });
+
+  it('rejects model inputs that are not operator settings', async () => {
+    expect(await rejection(createWithPreset({ max_images: 15 }))).toEqual({
+      code: 'input_not_allowed',
+      field: 'preset.settings.max_images',
+      status: 400,
+      message: 'Preset "Watercolor" has invalid settings: Setting "max_images" is not allowed for Seedream 4',
+    });
+    expect(await rejection(createWithPreset({ sequential_image_generation: 'auto' }))).toMatchObject({
+      code: 'input_not_allowed',
+      field: 'preset.settings.sequential_image_generation',
+    });
+    expect(jobs()).toHaveLength(0);
+  });
+
+  it('rejects a mask saved on the preset', async () => {
+    expect(await rejection(createWithPreset({ mask: OTHER_BUCKET_MASK }, 'flux-fill'))).toMatchObject({
+      code: 'input_not_allowed',
+      field: 'preset.settings.mask',
+    });
+    expect(jobs()).toHaveLength(0);
+  });
+
+  it('rejects values outside the model bounds', async () => {
+    expect(await rejection(createWithPreset({ size: 'custom', width: 100000 }))).toMatchObject({
+      code: 'invalid_field',
+      field: 'preset.settings.width',
+    });
+    expect(jobs()).toHaveLength(0);
+  });
+});
+
+describe('runGenerationJob', () => {
+  beforeEach(() => {
+    db.docs.clear();
+  });
+
+  it('does not recreate a job deleted before it ran', async () => {
+    await runGenerationJob(SESSION_ID, 'deleted-job');
+
+    expect(jobs()).toHaveLength(0);
+    expect(db.list(`sessions/${SESSION_ID}/aiResponses`)).toHaveLength(0);
+  });
+});
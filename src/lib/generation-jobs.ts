@@ -0,0 +1,788 @@
+import { FieldValue, DocumentData } from 'firebase-admin/firestore';
+import { getDownloadURL } from 'firebase-admin/storage';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import { getProvider, getWebhookUrl, ProviderPrediction } from '@/lib/providers';
+import {
+  GenerationError,
+  classifyError,
+  classifyPredictionError,
+} from '@/lib/generation-errors';
+import {
+  getEnabledModel,
+  getModelByVersion,
+  filterModelSettings,
+  supportsMask,
+  DEFAULT_MODEL_ID,
+} from '@/lib/models';
+import { validateModelSettings, RequestValidationError } from '@/lib/replicate-validation';
+import { moderatePrompt, getOutputClassifier, ModerationError } from '@/lib/moderation';
+import {
+  recordPredictionUsage,
+  checkBudget,
+  getExpectedPredictTime,
+} from '@/lib/generation-usage';
+import { parseGenerationProgress, trimLogs } from '@/lib/generation-progress';
+import type {
+  AIOutputVariant,
+  AutoProcessConfig,
+  ComparisonEntry,
+  ModerationRecord,
+  GenerationErrorType,
+  GenerationInput,
+  ModelSettings,
+} from '@/types';
+
+const POLL_INTERVAL = 1500;
+const MAX_POLL_ATTEMPTS = 120;
+export const MAX_VARIANTS = 4;
+export const MAX_COMPARISON_ENTRIES = 6;
+
+export interface CreateGenerationJobParams {
+  sessionId: string;
+  photoId: string;
+  prompt: string;
+  presetId?: string;
+  variantCount?: number;
+  modelId?: string;
+  settings?: ModelSettings; // Validated operator settings, override the preset's
+  parentResponseId?: string; // Earlier attempt on the same photo to refine
+  maskUrl?: string; // Validated mask in our Storage bucket
+  auto?: boolean; // Started by auto mode rather than an operator
+  comparison?: { id: string; entry: number }; // Entry of an A/B comparison
+}
+
+function sessionDoc(sessionId: string) {
+  return adminDb.collection('sessions').doc(sessionId);
+}
+
+function jobDoc(sessionId: string, jobId: string) {
+  return sessionDoc(sessionId).collection('generationJobs').doc(jobId);
+}
+
+/**
+ * Fields every aiResponses entry copies from its job
+ */
+export function jobResponseFields(job: DocumentData): DocumentData {
+  return {
+    photoId: job.photoId,
+    prompt: job.prompt,
+    ...(job.presetId
+      ? { presetId: job.presetId, presetVersion: job.presetVersion }
+      : {}),
+    ...(job.modelId
+      ? { modelId: job.modelId, modelVersion: job.modelVersion, settings: job.settings }
+      : {}),
+    ...(job.parentResponseId ? { parentResponseId: job.parentResponseId } : {}),
+    ...(job.maskUrl ? { maskUrl: job.maskUrl } : {}),
+    ...(job.comparisonId
+      ? { comparisonId: job.comparisonId, comparisonEntry: job.comparisonEntry }
+      : {}),
+  };
+}
+
+/**
+ * Records a new generation job in Firestore and returns its ID.
+ * The job waits in the session queue until processGenerationQueue starts it.
+ */
+export async function createGenerationJob({
+  sessionId,
+  photoId,
+  prompt,
+  presetId,
+  variantCount = 1,
+  modelId = DEFAULT_MODEL_ID,
+  settings = {},
+  parentResponseId,
+  maskUrl,
+  auto = false,
+  comparison,
+}: CreateGenerationJobParams): Promise<string> {
+  const model = getEnabledModel(modelId);
+  if (!model) {
+    throw new Error('Model not available');
+  }
+
+  if (maskUrl && !supportsMask(model)) {
+    throw new Error(`${model.name} cannot limit its edit to a masked region`);
+  }
+
+  // Refused prompts never reach a model; the refusal is kept in the history
+  const promptCheck = moderatePrompt(prompt);
+  if (promptCheck.flagged) {
+    const reason = promptCheck.reason || 'Prompt not allowed';
+    await sessionDoc(sessionId).collection('aiResponses').add({
+      photoId,
+      prompt,
+      ...(presetId ? { presetId } : {}),
+      modelId: model.id,
+      status: 'rejected',
+      error: reason,
+      moderation: {
+        stage: 'prompt',
+        reason,
+        ...(promptCheck.rule ? { rule: promptCheck.rule } : {}),
+      },
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    throw new ModerationError(reason, promptCheck.rule);
+  }
+
+  // Refinements run on an earlier output of the same photo instead of the photo
+  let refinement: DocumentData = {};
+  if (parentResponseId) {
+    const [parentSnapshot, photoSnapshot] = await Promise.all([
+      sessionDoc(sessionId).collection('aiResponses').doc(parentResponseId).get(),
+      sessionDoc(sessionId).collection('photos').doc(photoId).get(),
+    ]);
+    const parent = parentSnapshot.data();
+    if (!parent || parent.photoId !== photoId || !parent.outputImageUrl) {
+      throw new Error('Output to refine not found');
+    }
+    // The published step may show a variant other than the attempt's first one
+    const inputImageUrl =
+      photoSnapshot.get('aiResponseId') === parentResponseId
+        ? photoSnapshot.get('aiOutputUrl') || parent.outputImageUrl
+        : parent.outputImageUrl;
+    refinement = { parentResponseId, inputImageUrl };
+  }
+
+  // Snapshot the preset so later edits don't change what this job runs
+  let preset: DocumentData = {};
+  let presetSettings: ModelSettings = {};
+  if (presetId) {
+    const presetSnapshot = await adminDb.collection('presets').doc(presetId).get();
+    if (!presetSnapshot.exists) {
+      throw new Error('Preset not found');
+    }
+    const presetData = presetSnapshot.data()!;
+    preset = { presetId, presetVersion: presetData.version ?? 1 };
+    // Presets are edited from the dashboard, so their settings get the same
+    // checks as an operator's; settings for other models are left out first
+    try {
+      presetSettings = validateModelSettings(
+        model,
+        filterModelSettings(model, presetData.settings ?? {})
+      );
+    } catch (err) {
+      if (err instanceof RequestValidationError) {
+        err.message = `Preset "${presetData.name ?? presetId}" has invalid settings: ${err.message}`;
+        err.field = `preset.${err.field}`;
+      }
+      throw err;
+    }
+  }
+
+  const jobRef = await sessionDoc(sessionId).collection('generationJobs').add({
+    photoId,
+    prompt,
+    ...preset,
+    ...refinement,
+    ...(maskUrl ? { maskUrl } : {}),
+    modelId: model.id,
+    modelVersion: model.version,
+    // The exact settings are recorded so the result can be reproduced
+    settings: { ...model.defaults, ...presetSettings, ...settings },
+    variantCount: Math.min(Math.max(Math.floor(variantCount), 1), MAX_VARIANTS),
+    status: 'queued',
+    priority: 0,
+    ...(auto ? { auto: true } : {}),
+    ...(comparison
+      ? { comparisonId: comparison.id, comparisonEntry: comparison.entry }
+      : {}),
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  return jobRef.id;
+}
+
+/**
+ * Records an A/B comparison of one photo and queues a job per entry. An entry
+ * that can't start (e.g. its prompt is refused) keeps the error instead of a
+ * job ID, and the others still run.
+ */
+export async function createComparison(
+  sessionId: string,
+  photoId: string,
+  entries: Omit<ComparisonEntry, 'jobId' | 'error'>[]
+): Promise<{ comparisonId: string; entries: ComparisonEntry[] }> {
+  const photoSnapshot = await sessionDoc(sessionId).collection('photos').doc(photoId).get();
+  if (!photoSnapshot.exists) {
+    throw new Error('Photo not found');
+  }
+
+  const comparisonRef = await sessionDoc(sessionId).collection('comparisons').add({
+    photoId,
+    entries,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  const started: ComparisonEntry[] = [];
+  for (const [index, entry] of entries.entries()) {
+    try {
+      const jobId = await createGenerationJob({
+        sessionId,
+        photoId,
+        prompt: entry.prompt,
+        presetId: entry.presetId,
+        modelId: entry.modelId,
+        settings: entry.settings,
+        comparison: { id: comparisonRef.id, entry: index },
+      });
+      started.push({ ...entry, jobId });
+    } catch (err) {
+      started.push({
+        ...entry,
+        error: err instanceof Error ? err.message : 'Failed to start generation',
+      });
+    }
+  }
+
+  await comparisonRef.update({ entries: started });
+  return { comparisonId: comparisonRef.id, entries: started };
+}
+
+/**
+ * Creates the photo entry a multi-photo composition is published on.
+ * It has no input file of its own; generations read the source photos, in
+ * the order given, each time they run.
+ */
+export async function createCompositePhoto(
+  sessionId: string,
+  sourcePhotoIds: string[]
+): Promise<string> {
+  const photos = sessionDoc(sessionId).collection('photos');
+  const sources = await Promise.all(sourcePhotoIds.map((id) => photos.doc(id).get()));
+  if (sources.some((source) => !source.exists)) {
+    throw new Error('Source photo not found');
+  }
+  if (sources.some((source) => source.get('sourcePhotoIds'))) {
+    throw new Error('Composites cannot be used as sources');
+  }
+
+  const compositeRef = await photos.add({
+    // The first source stands in as the input image in listings
+    url: sources[0].get('url'),
+    sourcePhotoIds,
+    uploadedAt: FieldValue.serverTimestamp(),
+  });
+  return compositeRef.id;
+}
+
+/**
+ * Removes a composite whose first job could not be created, with the refused
+ * attempt createGenerationJob may have recorded on it
+ */
+export async function deleteCompositePhoto(sessionId: string, photoId: string): Promise<void> {
+  const attempts = await sessionDoc(sessionId)
+    .collection('aiResponses')
+    .where('photoId', '==', photoId)
+    .get();
+  await Promise.all(attempts.docs.map((attempt) => attempt.ref.delete()));
+  await sessionDoc(sessionId).collection('photos').doc(photoId).delete();
+}
+
+/**
+ * Queues the session's auto mode generation for a newly uploaded photo and
+ * links the job to the photo, so manual runs can be refused while it works.
+ * Returns null when auto mode is off.
+ */
+export async function createAutoProcessJob(
+  sessionId: string,
+  photoId: string
+): Promise<string | null> {
+  const config = (await sessionDoc(sessionId).get()).get('autoProcess') as
+    | AutoProcessConfig
+    | undefined;
+  if (!config?.enabled) {
+    return null;
+  }
+
+  // The config was saved by a dashboard, so check it like any other request
+  const model = getEnabledModel(config.modelId);
+  if (!model) {
+    throw new Error('Auto mode model not available');
+  }
+  if (!config.prompt?.trim()) {
+    throw new Error('Auto mode has no prompt');
+  }
+
+  const jobId = await createGenerationJob({
+    sessionId,
+    photoId,
+    prompt: config.prompt,
+    presetId: config.presetId,
+    modelId: model.id,
+    settings: validateModelSettings(model, config.settings),
+    auto: true,
+  });
+  await sessionDoc(sessionId).collection('photos').doc(photoId).update({ autoJobId: jobId });
+  return jobId;
+}
+
+/**
+ * Image URLs a photo's generations run on: its own image, or every source
+ * photo for a composite
+ */
+async function getInputImageUrls(sessionId: string, photo: DocumentData): Promise<string[]> {
+  if (!photo.sourcePhotoIds) {
+    return [photo.url];
+  }
+
+  const photos = sessionDoc(sessionId).collection('photos');
+  const sources = await Promise.all(
+    (photo.sourcePhotoIds as string[]).map((id) => photos.doc(id).get())
+  );
+  if (sources.some((source) => !source.exists)) {
+    throw new Error('A source photo of this composite was deleted');
+  }
+  return sources.map((source) => source.get('url'));
+}
+
+// Both prediction and job statuses end in one of these
+export function isTerminalStatus(status: string): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'canceled';
+}
+
+/**
+ * Runs a generation job claimed from the queue: creates the prediction and,
+ * when no webhook URL is configured (local development), polls it until it
+ * finishes. With a webhook, completion is handled by /api/replicate/webhook.
+ */
+export async function runGenerationJob(
+  sessionId: string,
+  jobId: string
+): Promise<void> {
+  const jobRef = jobDoc(sessionId, jobId);
+
+  try {
+    const jobSnapshot = await jobRef.get();
+    const job = jobSnapshot.data();
+    if (!job) {
+      throw new Error('Generation job not found');
+    }
+    // Only jobs claimed by processGenerationQueue run
+    if (job.status !== 'processing' || job.predictionId) {
+      return;
+    }
+
+    const photoSnapshot = await sessionDoc(sessionId)
+      .collection('photos')
+      .doc(job.photoId)
+      .get();
+    const photo = photoSnapshot.data();
+    if (!photo) {
+      throw new Error('Photo not found');
+    }
+
+    // Jobs created before models were selectable ran on the configured version
+    const modelVersion =
+      job.modelVersion || process.env.NEXT_PUBLIC_REPLICATE_MODEL_VERSION || '';
+    const model = getModelByVersion(modelVersion);
+    if (!model) {
+      throw new GenerationError('invalid_input', 'Model version is not allowed');
+    }
+
+    const modelInput: GenerationInput = {
+      ...(job.modelId ? {} : { aspect_ratio: 'match_input_image' }),
+      ...job.settings,
+      prompt: job.prompt,
+      image: job.inputImageUrl
+        ? [job.inputImageUrl]
+        : await getInputImageUrls(sessionId, photo),
+    };
+    if (job.variantCount > 1) {
+      modelInput[model.variants.field] = job.variantCount;
+      Object.assign(modelInput, model.variants.extra);
+    }
+
+    // Jobs queued before the cap was reached still stop here
+    await checkBudget(sessionId);
+
+    const provider = getProvider();
+    if (job.maskUrl) {
+      if (!supportsMask(model) || !provider.supportsMasks) {
+        throw new GenerationError(
+          'invalid_input',
+          `${model.name} cannot limit its edit to a masked region`
+        );
+      }
+      modelInput.mask = job.maskUrl;
+    }
+
+    const webhookUrl = provider.supportsWebhooks
+      ? getWebhookUrl({ sessionId, jobId })
+      : undefined;
+    const prediction = await provider.create(modelVersion, modelInput, {
+      webhook: webhookUrl,
+    });
+    const expectedPredictTime = await getExpectedPredictTime(model.id);
+    // The webhook may already have finished the job, so don't move it back
+    const currentStatus = await adminDb.runTransaction(async (transaction) => {
+      const current = (await transaction.get(jobRef)).data();
+      transaction.update(
+        jobRef,
+        current?.status === 'processing'
+          ? {
+              predictionId: prediction.id,
+              predictionStatus: prediction.status,
+              ...(expectedPredictTime ? { expectedPredictTime } : {}),
+              updatedAt: FieldValue.serverTimestamp(),
+            }
+          : { predictionId: prediction.id }
+      );
+      return current?.status;
+    });
+
+    // Canceled while the prediction was being created
+    if (currentStatus === 'canceled') {
+      await provider.cancel(prediction.id);
+      return;
+    }
+
+    if (webhookUrl) {
+      return;
+    }
+
+    // Polling fallback for local development (Replicate can't reach us)
+    // and for providers without webhooks
+    let lastStatus = prediction.status;
+    let lastLogs = prediction.logs;
+    for (let attempts = 0; attempts < MAX_POLL_ATTEMPTS; attempts++) {
+      const result = await provider.get(prediction.id);
+
+      if (
+        isTerminalStatus(result.status) ||
+        result.status !== lastStatus ||
+        result.logs !== lastLogs
+      ) {
+        lastStatus = result.status;
+        lastLogs = result.logs;
+        if (!(await handlePredictionUpdate(sessionId, jobId, result))) {
+          // The job was deleted while the prediction ran
+          return;
+        }
+      }
+
+      if (isTerminalStatus(result.status)) {
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+
+    throw new GenerationError('timeout', 'Prediction polling timed out');
+  } catch (err) {
+    console.error('Generation job error:', err);
+    const error = classifyError(err);
+    await finishGenerationJob(sessionId, jobId, 'failed', error.message, error.type);
+  }
+}
+
+/**
+ * Cancels a job: stops its prediction (if one was created) and records
+ * the cancellation.
+ */
+export async function cancelGenerationJob(
+  sessionId: string,
+  jobId: string
+): Promise<void> {
+  const job = (await jobDoc(sessionId, jobId).get()).data();
+  if (!job) {
+    throw new Error('Generation job not found');
+  }
+  if (isTerminalStatus(job.status)) {
+    return;
+  }
+
+  if (job.predictionId) {
+    await getProvider().cancel(job.predictionId);
+  }
+
+  await finishGenerationJob(sessionId, jobId, 'canceled', 'Canceled by operator');
+}
+
+/**
+ * Applies a prediction update (from polling or the webhook) to its job.
+ * Updates for jobs that already finished are ignored, so replayed
+ * webhooks don't store the output twice. Returns false when the job no
+ * longer exists (deleted with its photo or session), or the prediction
+ * isn't the one the job stored.
+ */
+export async function handlePredictionUpdate(
+  sessionId: string,
+  jobId: string,
+  prediction: ProviderPrediction
+): Promise<boolean> {
+  const jobRef = jobDoc(sessionId, jobId);
+  const job = (await jobRef.get()).data();
+  if (!job) {
+    // Still paid for: counted on the day, without reviving the session
+    await recordPredictionUsage({ prediction });
+    return false;
+  }
+
+  if (job.predictionId !== prediction.id) {
+    // The webhook can beat runGenerationJob storing the prediction ID;
+    // failing the delivery has Replicate retry it once the ID is stored
+    if (!job.predictionId && !isTerminalStatus(job.status) && isTerminalStatus(prediction.status)) {
+      throw new Error(`Generation job ${jobId} has not stored its prediction yet`);
+    }
+    console.error(`Prediction ${prediction.id} does not belong to generation job ${jobId}`);
+    return false;
+  }
+
+  // Counted even when the job already finished, e.g. canceled by an operator
+  await recordPredictionUsage({
+    prediction,
+    sessionId,
+    jobId,
+    modelVersion: job.modelVersion,
+  });
+
+  if (isTerminalStatus(job.status)) {
+    return true;
+  }
+
+  const progress = parseGenerationProgress(prediction.logs);
+  const logFields = prediction.logs
+    ? { logs: trimLogs(prediction.logs), ...(progress ? { progress } : {}) }
+    : {};
+
+  if (!isTerminalStatus(prediction.status)) {
+    await jobRef.update({
+      status: 'processing',
+      predictionStatus: prediction.status,
+      ...logFields,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  }
+
+  // Kept on finished jobs so failures can be debugged from the dashboard
+  if (prediction.logs) {
+    await jobRef.update(logFields);
+  }
+
+  if (prediction.status === 'canceled') {
+    await finishGenerationJob(sessionId, jobId, 'canceled', 'Prediction canceled');
+    return true;
+  }
+
+  if (prediction.status === 'failed') {
+    const error = classifyPredictionError(prediction.error);
+    await finishGenerationJob(
+      sessionId,
+      jobId,
+      'failed',
+      `Prediction failed: ${error.message}`,
+      error.type
+    );
+    return true;
+  }
+
+  try {
+    await completeGenerationJob(sessionId, jobId, job, prediction);
+  } catch (err) {
+    console.error('Generation job error:', err);
+    const error = classifyError(err);
+    await finishGenerationJob(sessionId, jobId, 'failed', error.message, error.type);
+  }
+  return true;
+}
+
+/**
+ * Applies a successful prediction to its job: copies the output into Storage,
+ * publishes it on the photo and records the aiResponses entry. The job is
+ * claimed first, so concurrent deliveries of the same completion copy the
+ * output once.
+ */
+async function completeGenerationJob(
+  sessionId: string,
+  jobId: string,
+  job: DocumentData,
+  prediction: ProviderPrediction
+): Promise<void> {
+  const jobRef = jobDoc(sessionId, jobId);
+
+  const claimed = await adminDb.runTransaction(async (transaction) => {
+    const current = (await transaction.get(jobRef)).data();
+    if (
+      !current ||
+      isTerminalStatus(current.status) ||
+      current.completing ||
+      current.predictionId !== prediction.id
+    ) {
+      return false;
+    }
+    transaction.update(jobRef, {
+      completing: true,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+  if (!claimed) {
+    return;
+  }
+
+  const imageUrls = getProvider()
+    .normalizeOutput(prediction.output)
+    .slice(0, job.variantCount ?? 1);
+  if (imageUrls.length === 0) {
+    throw new Error('Unexpected output format from provider');
+  }
+
+  // Copy every variant into Firebase Storage - stant_images/ai path
+  const timestamp = Date.now();
+  const outputs: AIOutputVariant[] = [];
+  const classifier = getOutputClassifier();
+  let flagged: ModerationRecord | null = null;
+  for (const [index, imageUrl] of imageUrls.entries()) {
+    const response = await fetch(imageUrl);
+    if (!response.ok) {
+      throw new Error('Failed to download AI output image');
+    }
+    const imageBuffer = Buffer.from(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') || 'image/jpeg';
+    const extension = contentType === 'image/png' ? 'png' : 'jpg';
+
+    const storagePath = `stant_images/ai/${sessionId}/${job.photoId}_${timestamp}_${index}.${extension}`;
+    const file = adminBucket.file(storagePath);
+    await file.save(imageBuffer, { contentType });
+    outputs.push({ url: await getDownloadURL(file), storagePath });
+
+    // Every variant is checked before anything is published
+    if (!flagged) {
+      const check = await classifier
+        .classify({ image: imageBuffer, contentType, prompt: job.prompt })
+        .catch((err) => {
+          console.error('Output classifier error:', err);
+          // Fail closed: an unchecked output must not reach the big screen
+          return {
+            flagged: true,
+            reason: 'The output could not be checked',
+            rule: 'classifier_error',
+          };
+        });
+      if (check.flagged) {
+        flagged = {
+          stage: 'output',
+          reason: check.reason || 'Flagged by the output classifier',
+          ...(check.rule ? { rule: check.rule } : {}),
+          classifier: classifier.name,
+        };
+      }
+    }
+  }
+
+  // The first variant is published until the operator picks another one
+  const [published] = outputs;
+  const photoRef = sessionDoc(sessionId).collection('photos').doc(job.photoId);
+  const responseRef = sessionDoc(sessionId).collection('aiResponses').doc();
+
+  const saved = await adminDb.runTransaction(async (transaction) => {
+    // Canceled or failed while the output was being copied
+    const current = (await transaction.get(jobRef)).data();
+    if (current?.status !== 'processing') {
+      return false;
+    }
+    // Comparison outputs stay in the history until the operator picks one
+    const publishOnPhoto = !flagged && !job.comparisonId;
+    if (publishOnPhoto && !(await transaction.get(photoRef)).exists) {
+      throw new Error('Photo not found');
+    }
+
+    // Flagged outputs wait for an operator instead of reaching the collage
+    transaction.set(responseRef, {
+      ...jobResponseFields(job),
+      outputImageUrl: published.url,
+      outputImageStoragePath: published.storagePath,
+      outputs,
+      status: flagged ? 'review' : 'succeeded',
+      ...(flagged ? { moderation: flagged } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    if (publishOnPhoto) {
+      // Earlier outputs stay in Storage, referenced by their aiResponses entries
+      transaction.update(photoRef, {
+        aiOutputUrl: published.url,
+        aiOutputStoragePath: published.storagePath,
+        aiVariants: outputs,
+        aiResponseId: responseRef.id,
+        aiProcessedAt: FieldValue.serverTimestamp(),
+        // Rotation and crop were chosen for the previous output
+        outputTransform: FieldValue.delete(),
+      });
+    }
+
+    transaction.update(jobRef, {
+      status: 'succeeded',
+      predictionStatus: prediction.status,
+      outputImageUrl: published.url,
+      outputImageStoragePath: published.storagePath,
+      ...(flagged ? { reviewReason: flagged.reason } : {}),
+      completing: FieldValue.delete(),
+      updatedAt: FieldValue.serverTimestamp(),
+      completedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+
+  // Nothing references the copies of an output that was never recorded
+  if (!saved) {
+    await Promise.all(
+      outputs.map((output) =>
+        adminBucket
+          .file(output.storagePath)
+          .delete()
+          .catch((err) => console.error('Failed to delete unused output:', err))
+      )
+    );
+  }
+}
+
+/**
+ * Marks a job as failed or canceled and records the matching aiResponses
+ * entry. Jobs that already finished or were deleted are left untouched.
+ */
+async function finishGenerationJob(
+  sessionId: string,
+  jobId: string,
+  status: 'failed' | 'canceled',
+  message: string,
+  errorType?: GenerationErrorType
+): Promise<void> {
+  try {
+    const jobRef = jobDoc(sessionId, jobId);
+
+    const job = await adminDb.runTransaction(async (transaction) => {
+      const current = (await transaction.get(jobRef)).data();
+      // Deleted jobs stay deleted
+      if (!current || isTerminalStatus(current.status)) {
+        return null;
+      }
+
+      transaction.update(jobRef, {
+        status,
+        error: message,
+        ...(errorType ? { errorType } : {}),
+        updatedAt: FieldValue.serverTimestamp(),
+        completedAt: FieldValue.serverTimestamp(),
+      });
+      return current;
+    });
+
+    if (job) {
+      await sessionDoc(sessionId).collection('aiResponses').add({
+        ...jobResponseFields(job),
+        status,
+        error: message,
+        ...(errorType ? { errorType } : {}),
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+  } catch (dbErr) {
+    console.error('Failed to save job error to database:', dbErr);
+  }
+}
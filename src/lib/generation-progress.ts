@@ -0,0 +1,81 @@
+import type { GenerationJob, GenerationProgress } from '@/types';
+
+// Only the end of the logs is kept on the job document
+export const MAX_STORED_LOG_LENGTH = 4000;
+
+// tqdm bars, e.g. " 45%|████▌     | 9/20 [00:03<00:04, 2.50it/s]"
+const TQDM_PATTERN = /(\d{1,3})%\|[^|\n]*\|\s*(\d+)\/(\d+)/;
+// Step counters, e.g. "step 9/20" or "Step 9 of 20"
+const STEP_PATTERN = /\bstep\s+(\d+)\s*(?:\/|of)\s*(\d+)/i;
+const PERCENT_PATTERN = /(\d{1,3}(?:\.\d+)?)\s?%/;
+
+function clampPercent(value: number): number {
+  return Math.min(Math.max(Math.round(value), 0), 100);
+}
+
+/**
+ * Reads the latest progress a model printed to its logs. Returns null when
+ * the logs have no step count or percentage, which many models don't print.
+ */
+export function parseGenerationProgress(logs?: string | null): GenerationProgress | null {
+  if (!logs) {
+    return null;
+  }
+
+  // tqdm redraws its bar with carriage returns, so split on those too
+  const lines = logs.split(/[\r\n]+/);
+  for (let index = lines.length - 1; index >= 0; index--) {
+    const line = lines[index];
+
+    const tqdm = line.match(TQDM_PATTERN);
+    if (tqdm) {
+      return {
+        percent: clampPercent(Number(tqdm[1])),
+        step: Number(tqdm[2]),
+        totalSteps: Number(tqdm[3]),
+      };
+    }
+
+    const step = line.match(STEP_PATTERN);
+    if (step && Number(step[2]) > 0) {
+      return {
+        percent: clampPercent((Number(step[1]) / Number(step[2])) * 100),
+        step: Number(step[1]),
+        totalSteps: Number(step[2]),
+      };
+    }
+
+    const percent = line.match(PERCENT_PATTERN);
+    if (percent) {
+      return { percent: clampPercent(Number(percent[1])) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Keeps the end of the logs, where the latest progress and errors are
+ */
+export function trimLogs(logs: string): string {
+  return logs.length > MAX_STORED_LOG_LENGTH ? logs.slice(-MAX_STORED_LOG_LENGTH) : logs;
+}
+
+/**
+ * Seconds until a processing job should finish, from how long its model
+ * usually runs. Null when there is no history for the model yet.
+ */
+export function estimateRemainingSeconds(
+  job: GenerationJob,
+  now: number = Date.now()
+): number | null {
+  if (job.status !== 'processing' || !job.expectedPredictTime || !job.startedAt) {
+    return null;
+  }
+
+  const elapsed = (now - job.startedAt.getTime()) / 1000;
+  // Once the model reports progress, scale what's left by it
+  if (job.progress && job.progress.percent > 0) {
+    return Math.max(job.expectedPredictTime * (1 - job.progress.percent / 100), 0);
+  }
+  return Math.max(job.expectedPredictTime - elapsed, 0);
+}
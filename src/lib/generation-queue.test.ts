@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { processGenerationQueue } from '@/lib/generation-queue';
+import { runGenerationJob } from '@/lib/generation-jobs';
+import { adminDb } from '@/lib/firebase-admin';
+import { Timestamp, type FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/firestore', async () => {
+  const { FieldValue, Timestamp } = await import('@/test/firestore');
+  return { FieldValue, Timestamp };
+});
+vi.mock('firebase-admin/storage', async () => {
+  const { getDownloadURL } = await import('@/test/firestore');
+  return { getDownloadURL };
+});
+vi.mock('@/lib/generation-jobs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/generation-jobs')>()),
+  runGenerationJob: vi.fn(),
+}));
+
+const db = adminDb as unknown as FakeFirestore;
+
+const SESSION_ID = 'session-1';
+const JOBS_PATH = `sessions/${SESSION_ID}/generationJobs`;
+
+function minutesAgo(minutes: number) {
+  return Timestamp.fromMillis(Date.now() - minutes * 60 * 1000);
+}
+
+describe('processGenerationQueue', () => {
+  beforeEach(() => {
+    db.docs.clear();
+    vi.mocked(runGenerationJob).mockReset();
+    db.set(`sessions/${SESSION_ID}`, { generationConcurrency: 1 });
+    db.set(`${JOBS_PATH}/queued`, { photoId: 'photo-2', prompt: 'A watercolor', status: 'queued' });
+  });
+
+  it('fails a processing job that stopped updating and runs the next one in its slot', async () => {
+    db.set(`${JOBS_PATH}/stale`, {
+      photoId: 'photo-1',
+      prompt: 'A watercolor',
+      status: 'processing',
+      updatedAt: minutesAgo(11),
+    });
+
+    await processGenerationQueue(SESSION_ID);
+
+    expect(db.get(`${JOBS_PATH}/stale`)).toMatchObject({
+      status: 'failed',
+      errorType: 'timeout',
+      error: 'Generation timed out',
+    });
+    expect(db.list(`sessions/${SESSION_ID}/aiResponses`).map((attempt) => attempt.data)).toEqual([
+      expect.objectContaining({ photoId: 'photo-1', status: 'failed', errorType: 'timeout' }),
+    ]);
+    expect(db.get(`${JOBS_PATH}/queued`)?.status).toBe('processing');
+    expect(runGenerationJob).toHaveBeenCalledWith(SESSION_ID, 'queued');
+  });
+
+  it('leaves a running job that updated recently alone', async () => {
+    db.set(`${JOBS_PATH}/running`, {
+      photoId: 'photo-1',
+      prompt: 'A watercolor',
+      status: 'processing',
+      updatedAt: minutesAgo(2),
+    });
+
+    await processGenerationQueue(SESSION_ID);
+
+    expect(db.get(`${JOBS_PATH}/running`)?.status).toBe('processing');
+    expect(db.list(`sessions/${SESSION_ID}/aiResponses`)).toHaveLength(0);
+    expect(db.get(`${JOBS_PATH}/queued`)?.status).toBe('queued');
+    expect(runGenerationJob).not.toHaveBeenCalled();
+  });
+});
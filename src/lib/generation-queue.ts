@@ -0,0 +1,119 @@
+import { FieldValue, Timestamp, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { jobResponseFields, runGenerationJob } from '@/lib/generation-jobs';
+
+const DEFAULT_CONCURRENCY = Number(process.env.GENERATION_CONCURRENCY || 2);
+
+// Processing jobs not updated for this long are assumed lost (e.g. the server
+// restarted) and are failed, freeing their concurrency slot
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+function jobsCollection(sessionId: string) {
+  return adminDb.collection('sessions').doc(sessionId).collection('generationJobs');
+}
+
+function toMillis(value: unknown): number {
+  return value instanceof Timestamp ? value.toMillis() : Date.now();
+}
+
+/**
+ * Queue order: higher priority first, then first in, first out
+ */
+function compareQueueOrder(a: QueryDocumentSnapshot, b: QueryDocumentSnapshot): number {
+  const priorityDiff = (b.get('priority') ?? 0) - (a.get('priority') ?? 0);
+  if (priorityDiff !== 0) {
+    return priorityDiff;
+  }
+  return toMillis(a.get('createdAt')) - toMillis(b.get('createdAt'));
+}
+
+/**
+ * Claims as many queued jobs as the session's concurrency limit allows and
+ * runs them. The claim is a Firestore transaction, so several dashboards or
+ * server instances can call this at once without exceeding the limit.
+ */
+export async function processGenerationQueue(sessionId: string): Promise<void> {
+  const sessionSnapshot = await adminDb.collection('sessions').doc(sessionId).get();
+  const concurrency =
+    Number(sessionSnapshot.get('generationConcurrency')) || DEFAULT_CONCURRENCY;
+
+  const claimedIds = await adminDb.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(
+      jobsCollection(sessionId).where('status', 'in', ['queued', 'processing'])
+    );
+
+    const processing = snapshot.docs.filter((doc) => doc.get('status') === 'processing');
+    const isStale = (doc: QueryDocumentSnapshot) =>
+      Date.now() - toMillis(doc.get('updatedAt')) >= STALE_JOB_MS;
+    const running = processing.filter((doc) => !isStale(doc));
+
+    processing.filter(isStale).forEach((doc) => {
+      const error = 'Generation timed out';
+      transaction.update(doc.ref, {
+        status: 'failed',
+        error,
+        errorType: 'timeout',
+        updatedAt: FieldValue.serverTimestamp(),
+        completedAt: FieldValue.serverTimestamp(),
+      });
+      transaction.set(
+        adminDb.collection('sessions').doc(sessionId).collection('aiResponses').doc(),
+        {
+          ...jobResponseFields(doc.data()),
+          status: 'failed',
+          error,
+          errorType: 'timeout',
+          createdAt: FieldValue.serverTimestamp(),
+        }
+      );
+    });
+    const queued = snapshot.docs
+      .filter((doc) => doc.get('status') === 'queued')
+      .sort(compareQueueOrder);
+
+    const claimed = queued.slice(0, Math.max(concurrency - running.length, 0));
+    claimed.forEach((doc) => {
+      transaction.update(doc.ref, {
+        status: 'processing',
+        startedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    });
+    return claimed.map((doc) => doc.id);
+  });
+
+  if (claimedIds.length === 0) {
+    return;
+  }
+
+  await Promise.all(claimedIds.map((jobId) => runGenerationJob(sessionId, jobId)));
+
+  // Polled jobs have finished by now and freed their slots
+  await processGenerationQueue(sessionId);
+}
+
+/**
+ * Moves a queued job to the front of the session queue
+ */
+export async function bumpGenerationJob(sessionId: string, jobId: string): Promise<void> {
+  await adminDb.runTransaction(async (transaction) => {
+    const jobRef = jobsCollection(sessionId).doc(jobId);
+    const [jobSnapshot, queuedSnapshot] = await Promise.all([
+      transaction.get(jobRef),
+      transaction.get(jobsCollection(sessionId).where('status', '==', 'queued')),
+    ]);
+
+    if (jobSnapshot.get('status') !== 'queued') {
+      throw new Error('Only queued jobs can be bumped');
+    }
+
+    const highestPriority = Math.max(
+      0,
+      ...queuedSnapshot.docs.map((doc) => doc.get('priority') ?? 0)
+    );
+    transaction.update(jobRef, {
+      priority: highestPriority + 1,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+}
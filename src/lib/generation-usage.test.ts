@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { recordPredictionUsage } from '@/lib/generation-usage';
+import { adminDb } from '@/lib/firebase-admin';
+import type { FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/firestore', async () => {
+  const { FieldValue } = await import('@/test/firestore');
+  return { FieldValue };
+});
+
+const db = adminDb as unknown as FakeFirestore;
+
+const SESSION_ID = 'session-1';
+
+function succeeded(id: string) {
+  return {
+    id,
+    version: 'seedream-test-version',
+    status: 'succeeded' as const,
+    output: ['https://replicate.delivery/a.png', 'https://replicate.delivery/b.png'],
+    metrics: { predict_time: 8 },
+  };
+}
+
+describe('recordPredictionUsage', () => {
+  beforeEach(() => {
+    db.docs.clear();
+    db.set(`sessions/${SESSION_ID}`, {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('adds the estimated cost to the session and the day', async () => {
+    await recordPredictionUsage({ prediction: succeeded('prediction-a'), sessionId: SESSION_ID });
+
+    expect(db.get('usage/prediction-a')).toMatchObject({ modelId: 'seedream-4', estimatedCost: 0.06 });
+    expect(db.get(`sessions/${SESSION_ID}`)?.usage).toEqual({
+      predictions: 1,
+      predictTime: 8,
+      estimatedCost: 0.06,
+    });
+    expect(db.get('usageModels/seedream-4')).toEqual({ succeeded: 1, predictTime: 8 });
+  });
+
+  it('records mock predictions at no cost, without touching model run times', async () => {
+    vi.stubEnv('GENERATION_PROVIDER', 'mock');
+
+    await recordPredictionUsage({ prediction: succeeded('mock-a'), sessionId: SESSION_ID });
+
+    expect(db.get('usage/mock-a')).toMatchObject({ outputCount: 2, estimatedCost: 0 });
+    expect(db.get(`sessions/${SESSION_ID}`)?.usage).toMatchObject({
+      predictions: 1,
+      estimatedCost: 0,
+    });
+    expect(db.get('usageModels/seedream-4')).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { getProvider, ProviderPrediction } from '@/lib/providers';
+import { getModelByVersion, estimatePredictionCost } from '@/lib/models';
+import { GenerationError } from '@/lib/generation-errors';
+
+// Caps in USD; unset means unlimited. Sessions can override theirs (budgetUsd).
+const SESSION_BUDGET_USD = Number(process.env.SESSION_BUDGET_USD) || 0;
+const EVENT_BUDGET_USD = Number(process.env.EVENT_BUDGET_USD) || 0; // Per day
+
+/**
+ * Day a prediction is counted on, e.g. "2025-10-18", in USAGE_TIMEZONE
+ * so a stand day isn't split at midnight UTC
+ */
+export function getUsageDay(date: Date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: process.env.USAGE_TIMEZONE || 'UTC',
+  }).format(date);
+}
+
+interface RecordUsageParams {
+  prediction: ProviderPrediction;
+  sessionId?: string;
+  jobId?: string;
+  modelVersion?: string; // When the prediction doesn't report its version
+}
+
+/**
+ * Records a finished prediction's run time and estimated cost, and adds it
+ * to the session and day totals. Each prediction is counted once, however
+ * often its completion is reported. Failures are logged, never thrown, so
+ * accounting can't fail a generation.
+ */
+export async function recordPredictionUsage({
+  prediction,
+  sessionId,
+  jobId,
+  modelVersion,
+}: RecordUsageParams): Promise<void> {
+  // Only finished predictions have their final run time
+  if (prediction.status === 'starting' || prediction.status === 'processing') {
+    return;
+  }
+
+  try {
+    const provider = getProvider();
+    const version = prediction.version || modelVersion || '';
+    const model = getModelByVersion(version);
+    const predictTime = Number(prediction.metrics?.predict_time) || 0;
+    const outputCount =
+      prediction.status === 'succeeded'
+        ? provider.normalizeOutput(prediction.output).length
+        : 0;
+    // Mock predictions report the real version but cost nothing
+    const estimatedCost = provider.billed
+      ? estimatePredictionCost(model, predictTime, outputCount)
+      : 0;
+    const day = getUsageDay();
+
+    const totals = {
+      usage: {
+        predictions: FieldValue.increment(1),
+        predictTime: FieldValue.increment(predictTime),
+        estimatedCost: FieldValue.increment(estimatedCost),
+      },
+    };
+
+    await adminDb.runTransaction(async (transaction) => {
+      const usageRef = adminDb.collection('usage').doc(prediction.id);
+      if ((await transaction.get(usageRef)).exists) {
+        return;
+      }
+
+      transaction.set(usageRef, {
+        ...(sessionId ? { sessionId } : {}),
+        ...(jobId ? { jobId } : {}),
+        ...(model ? { modelId: model.id } : {}),
+        ...(version ? { modelVersion: version } : {}),
+        status: prediction.status,
+        predictTime,
+        outputCount,
+        estimatedCost,
+        day,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+      transaction.set(adminDb.collection('usageDays').doc(day), totals, { merge: true });
+      if (sessionId) {
+        transaction.set(adminDb.collection('sessions').doc(sessionId), totals, {
+          merge: true,
+        });
+      }
+      // Run times of successful predictions give each model's ETA
+      if (model && provider.billed && prediction.status === 'succeeded' && predictTime > 0) {
+        transaction.set(
+          adminDb.collection('usageModels').doc(model.id),
+          {
+            succeeded: FieldValue.increment(1),
+            predictTime: FieldValue.increment(predictTime),
+          },
+          { merge: true }
+        );
+      }
+    });
+  } catch (err) {
+    console.error('Failed to record prediction usage:', err);
+  }
+}
+
+/**
+ * Average run time in seconds of the model's successful predictions, or
+ * undefined before it has any
+ */
+export async function getExpectedPredictTime(modelId: string): Promise<number | undefined> {
+  try {
+    const snapshot = await adminDb.collection('usageModels').doc(modelId).get();
+    const succeeded = Number(snapshot.get('succeeded')) || 0;
+    const predictTime = Number(snapshot.get('predictTime')) || 0;
+    return succeeded > 0 ? predictTime / succeeded : undefined;
+  } catch (err) {
+    console.error('Failed to read model run times:', err);
+    return undefined;
+  }
+}
+
+/**
+ * Refuses new predictions once the session's or today's estimated cost has
+ * reached its cap. Throws a GenerationError of type budget_exceeded.
+ */
+export async function checkBudget(sessionId?: string): Promise<void> {
+  const [sessionSnapshot, daySnapshot] = await Promise.all([
+    sessionId ? adminDb.collection('sessions').doc(sessionId).get() : null,
+    adminDb.collection('usageDays').doc(getUsageDay()).get(),
+  ]);
+
+  const sessionCap = Number(sessionSnapshot?.get('budgetUsd')) || SESSION_BUDGET_USD;
+  const sessionSpent = Number(sessionSnapshot?.get('usage.estimatedCost')) || 0;
+  if (sessionCap && sessionSpent >= sessionCap) {
+    throw new GenerationError(
+      'budget_exceeded',
+      `This session has used its $${sessionCap.toFixed(2)} budget`,
+      402
+    );
+  }
+
+  const daySpent = Number(daySnapshot.get('usage.estimatedCost')) || 0;
+  if (EVENT_BUDGET_USD && daySpent >= EVENT_BUDGET_USD) {
+    throw new GenerationError(
+      'budget_exceeded',
+      `Today's $${EVENT_BUDGET_USD.toFixed(2)} event budget is used up`,
+      402
+    );
+  }
+}
@@ -0,0 +1,202 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { createCanvas, loadImage, Canvas } from '@napi-rs/canvas';
+import sharp from 'sharp';
+import imageCompression from 'browser-image-compression';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ImagePreprocessOptions,
+  ImageValidationError,
+  preprocessImage,
+  validateImageFile,
+} from '@/lib/imageUtils';
+
+vi.mock('browser-image-compression', () => ({ default: vi.fn() }));
+
+const FIXTURES = path.resolve(__dirname, '../test/fixtures/images');
+const MB = 1024 * 1024;
+
+const FIXTURE_TYPES: Record<string, string> = {
+  'landscape.jpg': 'image/jpeg', // 1200x800
+  'portrait.png': 'image/png', // 300x450
+  'small.webp': 'image/webp', // 64x48
+  'animation.gif': 'image/gif',
+};
+
+function fixtureFile(name: string): File {
+  return new File([readFileSync(path.join(FIXTURES, name))], name, { type: FIXTURE_TYPES[name] });
+}
+
+function options(overrides: Partial<ImagePreprocessOptions> = {}): ImagePreprocessOptions {
+  return { maxInputBytes: 10 * MB, maxLongEdge: 2048, targetBytes: 1.5 * MB, format: 'jpeg', ...overrides };
+}
+
+async function decodedSize(file: Blob) {
+  const { width, height, format } = await sharp(Buffer.from(await file.arrayBuffer())).metadata();
+  return { width, height, format };
+}
+
+function validationCode(validate: () => unknown) {
+  try {
+    validate();
+  } catch (err) {
+    expect(err).toBeInstanceOf(ImageValidationError);
+    return (err as ImageValidationError).code;
+  }
+  throw new Error('Expected an ImageValidationError');
+}
+
+/**
+ * The parts of a canvas element preprocessImage uses, drawn by @napi-rs/canvas
+ * since jsdom has no canvas of its own
+ */
+class TestCanvas {
+  width = 300;
+  height = 150;
+  private canvas?: Canvas;
+
+  getContext() {
+    this.canvas = createCanvas(this.width, this.height);
+    return this.canvas.getContext('2d');
+  }
+
+  toBlob(callback: (blob: Blob | null) => void, type: string, quality: number) {
+    const canvas = this.canvas ?? createCanvas(this.width, this.height);
+    const data =
+      type === 'image/png'
+        ? canvas.toBuffer('image/png')
+        : canvas.toBuffer(type as 'image/jpeg' | 'image/webp', Math.round(quality * 100));
+    callback(new Blob([new Uint8Array(data)], { type }));
+  }
+}
+
+describe('validateImageFile', () => {
+  it('accepts JPEG, PNG and WebP photos', () => {
+    for (const name of ['landscape.jpg', 'portrait.png', 'small.webp']) {
+      expect(() => validateImageFile(fixtureFile(name))).not.toThrow();
+    }
+  });
+
+  it('rejects other types, naming the file', () => {
+    const file = fixtureFile('animation.gif');
+
+    expect(validationCode(() => validateImageFile(file))).toBe('unsupported_type');
+    expect(() => validateImageFile(file)).toThrow(/animation\.gif/);
+  });
+
+  it('rejects files over the size limit before decoding them', () => {
+    const file = fixtureFile('landscape.jpg');
+
+    expect(validationCode(() => validateImageFile(file, options({ maxInputBytes: 10 * 1024 })))).toBe(
+      'too_large'
+    );
+    expect(() => validateImageFile(file, options({ maxInputBytes: 10 * 1024 }))).toThrow(
+      'landscape.jpg is 20 KB; the limit is 10 KB.'
+    );
+  });
+
+  it('rejects files over the default 10 MB limit', () => {
+    const file = new File([new Uint8Array(11 * MB)], 'huge.jpg', { type: 'image/jpeg' });
+
+    expect(validationCode(() => validateImageFile(file))).toBe('too_large');
+  });
+});
+
+describe('preprocessImage', () => {
+  const compress = vi.mocked(imageCompression);
+
+  beforeEach(() => {
+    const createElement = document.createElement.bind(document);
+    vi.spyOn(document, 'createElement').mockImplementation(((tagName: string) =>
+      tagName === 'canvas' ? new TestCanvas() : createElement(tagName)) as typeof document.createElement);
+    vi.stubGlobal('createImageBitmap', async (blob: Blob) => {
+      const image = await loadImage(Buffer.from(await blob.arrayBuffer()));
+      return Object.assign(image, { close: () => {} });
+    });
+    compress.mockReset();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('scales the long edge down to the limit, keeping the aspect ratio', async () => {
+    const output = await preprocessImage(fixtureFile('landscape.jpg'), options({ maxLongEdge: 600 }));
+
+    expect(await decodedSize(output)).toEqual({ width: 600, height: 400, format: 'jpeg' });
+    expect(output.type).toBe('image/jpeg');
+    expect(output.name).toBe('landscape.jpg');
+  });
+
+  it('scales portrait photos by their height', async () => {
+    const output = await preprocessImage(fixtureFile('portrait.png'), options({ maxLongEdge: 300 }));
+
+    expect(await decodedSize(output)).toMatchObject({ width: 200, height: 300 });
+  });
+
+  it('never scales small photos up', async () => {
+    const output = await preprocessImage(fixtureFile('small.webp'), options({ maxLongEdge: 600 }));
+
+    expect(await decodedSize(output)).toMatchObject({ width: 64, height: 48 });
+  });
+
+  it('encodes in the configured format and renames the file to match', async () => {
+    const webp = await preprocessImage(fixtureFile('portrait.png'), options({ format: 'webp' }));
+    const jpeg = await preprocessImage(fixtureFile('small.webp'), options({ format: 'jpeg' }));
+
+    expect(webp.type).toBe('image/webp');
+    expect(webp.name).toBe('portrait.webp');
+    expect((await decodedSize(webp)).format).toBe('webp');
+    expect(jpeg.name).toBe('small.jpg');
+    expect((await decodedSize(jpeg)).format).toBe('jpeg');
+  });
+
+  it('returns the first encode when it is within the target size', async () => {
+    const output = await preprocessImage(fixtureFile('landscape.jpg'), options({ targetBytes: MB }));
+
+    expect(output.size).toBeLessThanOrEqual(MB);
+    expect(compress).not.toHaveBeenCalled();
+  });
+
+  it('recompresses towards the target size when the first encode is larger', async () => {
+    compress.mockImplementation(async (file) => new File([new Uint8Array(4 * 1024)], file.name, { type: file.type }));
+
+    const output = await preprocessImage(
+      fixtureFile('landscape.jpg'),
+      options({ maxLongEdge: 1000, targetBytes: 8 * 1024 })
+    );
+
+    expect(compress).toHaveBeenCalledTimes(1);
+    const [encoded, compressionOptions] = compress.mock.calls[0];
+    expect(encoded.size).toBeGreaterThan(8 * 1024);
+    expect(compressionOptions).toEqual({
+      maxSizeMB: (8 * 1024) / MB,
+      maxWidthOrHeight: 1000,
+      fileType: 'image/jpeg',
+      initialQuality: 0.92,
+      useWebWorker: true,
+    });
+    expect(output.size).toBe(4 * 1024);
+    expect(output.name).toBe('landscape.jpg');
+    expect(output.type).toBe('image/jpeg');
+  });
+
+  it('rejects files that cannot be decoded', async () => {
+    const broken = new File([new Uint8Array([0xff, 0xd8, 0x00, 0x01])], 'broken.jpg', {
+      type: 'image/jpeg',
+    });
+
+    await expect(preprocessImage(broken, options())).rejects.toMatchObject({
+      name: 'ImageValidationError',
+      code: 'unreadable',
+    });
+  });
+
+  it('validates before decoding', async () => {
+    await expect(preprocessImage(fixtureFile('animation.gif'), options())).rejects.toMatchObject({
+      code: 'unsupported_type',
+    });
+  });
+});
@@ -2,54 +2,172 @@
  * Utility functions for image processing
  */
 
+import imageCompression from 'browser-image-compression';
+import {
+  readExifOrientation,
+  getOrientationTransform,
+  browserAppliesExifOrientation,
+} from '@/lib/exif';
+
+export type ImageOutputFormat = 'jpeg' | 'webp' | 'png';
+
+export interface ImagePreprocessOptions {
+  maxInputBytes: number; // Larger files are rejected before decoding
+  maxLongEdge: number; // Longest side of the output, in pixels
+  targetBytes: number; // Output is recompressed until it fits, where possible
+  format: ImageOutputFormat;
+}
+
+// Types every supported browser can decode
+export const SUPPORTED_INPUT_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const MIME_TYPES: Record<ImageOutputFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  png: 'image/png',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+// Quality of the first encode; only lowered when the file is over target
+const INITIAL_QUALITY = 0.92;
+
+const MB = 1024 * 1024;
+
+function parseFormat(value?: string): ImageOutputFormat {
+  return value === 'webp' || value === 'png' ? value : 'jpeg';
+}
+
 /**
- * Converts image to PNG format without any rotation or transformation
- * This preserves the original pixel orientation for AI processing
- *
- * @param file - The original image file
- * @returns A new File object in PNG format
+ * Upload limits, configurable through NEXT_PUBLIC_UPLOAD_* variables
  */
-export async function normalizeImageOrientation(file: File): Promise<File> {
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxInputBytes: (Number(process.env.NEXT_PUBLIC_UPLOAD_MAX_INPUT_MB) || 10) * MB,
+  maxLongEdge: Number(process.env.NEXT_PUBLIC_UPLOAD_MAX_LONG_EDGE) || 2048,
+  targetBytes: (Number(process.env.NEXT_PUBLIC_UPLOAD_TARGET_MB) || 1.5) * MB,
+  format: parseFormat(process.env.NEXT_PUBLIC_UPLOAD_FORMAT),
+};
+
+/**
+ * A file refused before upload; the message is shown to the visitor
+ */
+export class ImageValidationError extends Error {
+  code: 'unsupported_type' | 'too_large' | 'unreadable';
+
+  constructor(code: ImageValidationError['code'], message: string) {
+    super(message);
+    this.name = 'ImageValidationError';
+    this.code = code;
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  return bytes >= MB ? `${(bytes / MB).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * File extension for an image MIME type, e.g. "jpg"
+ */
+export function getImageExtension(mimeType: string): string {
+  return EXTENSIONS[mimeType] || 'jpg';
+}
+
+/**
+ * Checks a file's type and size without decoding it
+ */
+export function validateImageFile(
+  file: File,
+  options: ImagePreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): void {
+  if (!SUPPORTED_INPUT_TYPES.includes(file.type)) {
+    throw new ImageValidationError(
+      'unsupported_type',
+      `${file.name}: ${file.type || 'this file type'} is not supported. Use a JPG, PNG or WebP photo.`
+    );
+  }
+  if (file.size > options.maxInputBytes) {
+    throw new ImageValidationError(
+      'too_large',
+      `${file.name} is ${formatFileSize(file.size)}; the limit is ${formatFileSize(options.maxInputBytes)}.`
+    );
+  }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
   return new Promise((resolve, reject) => {
-    // Use createImageBitmap with 'none' to ignore EXIF orientation
-    // This keeps the raw pixel data exactly as captured
-    createImageBitmap(file, { imageOrientation: 'none' })
-      .then((imageBitmap) => {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-
-        // Set canvas dimensions to match the bitmap
-        canvas.width = imageBitmap.width;
-        canvas.height = imageBitmap.height;
-
-        // Draw the image without any transformations
-        ctx.drawImage(imageBitmap, 0, 0);
-
-        // Convert canvas to PNG blob (strips EXIF but preserves pixel orientation)
-        canvas.toBlob((blob) => {
-          if (!blob) {
-            reject(new Error('Failed to create blob from canvas'));
-            return;
-          }
-
-          // Create a new File from the blob as PNG
-          const originalName = file.name.replace(/\.[^/.]+$/, '');
-          const pngFile = new File([blob], `${originalName}.png`, {
-            type: 'image/png',
-            lastModified: Date.now(),
-          });
-
-          resolve(pngFile);
-        }, 'image/png');
-      })
-      .catch((err) => {
-        reject(new Error(`Failed to process image: ${err.message}`));
-      });
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas'))),
+      type,
+      quality
+    );
   });
 }
 
+/**
+ * Prepares a photo for upload: validates it, turns it upright according to
+ * its EXIF orientation, scales it down to the maximum long edge, encodes it
+ * in the configured format and recompresses it towards the target size.
+ */
+export async function preprocessImage(
+  file: File,
+  options: ImagePreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<File> {
+  validateImageFile(file, options);
+
+  // The EXIF block is at the start of the file
+  const orientation = readExifOrientation(await file.slice(0, 64 * 1024).arrayBuffer());
+
+  let imageBitmap: ImageBitmap;
+  try {
+    imageBitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    throw new ImageValidationError(
+      'unreadable',
+      `${file.name} could not be read. It may be damaged or not a photo.`
+    );
+  }
+
+  // Browsers that already turned the bitmap upright need no transform
+  const upright = getOrientationTransform(
+    (await browserAppliesExifOrientation()) ? 1 : orientation,
+    imageBitmap.width,
+    imageBitmap.height
+  );
+  const scale = Math.min(1, options.maxLongEdge / Math.max(upright.width, upright.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(upright.width * scale);
+  canvas.height = Math.round(upright.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.scale(canvas.width / upright.width, canvas.height / upright.height);
+  ctx.transform(...upright.matrix);
+  ctx.drawImage(imageBitmap, 0, 0);
+  imageBitmap.close();
+
+  const blob = await canvasToBlob(canvas, MIME_TYPES[options.format], INITIAL_QUALITY);
+  // Browsers that can't encode the format (e.g. older Safari and WebP) fall back to PNG
+  const type = blob.type || MIME_TYPES[options.format];
+  const name = `${file.name.replace(/\.[^/.]+$/, '')}.${getImageExtension(type)}`;
+  // The encoded canvas has no EXIF data, so nothing rotates it again
+  const encoded = new File([blob], name, { type, lastModified: Date.now() });
+  if (encoded.size <= options.targetBytes) {
+    return encoded;
+  }
+
+  // Lowers the quality (and, for PNG, the size) until the file fits
+  const compressed = await imageCompression(encoded, {
+    maxSizeMB: options.targetBytes / MB,
+    maxWidthOrHeight: options.maxLongEdge,
+    fileType: type,
+    initialQuality: INITIAL_QUALITY,
+    useWebWorker: true,
+  });
+  return new File([compressed], name, { type, lastModified: Date.now() });
+}
@@ -0,0 +1,171 @@
+import { Timestamp, DocumentData } from 'firebase/firestore';
+import type { GenerationJob, ModelSettings } from '@/types';
+
+export interface StartGenerationJobOptions {
+  presetId?: string; // Preset the prompt was rendered from
+  variantCount?: number;
+  modelId?: string;
+  settings?: ModelSettings;
+  parentResponseId?: string; // Refine this attempt's output instead of the photo
+  maskUrl?: string; // Only change the white region (models with mask support)
+}
+
+/**
+ * Starts a server-side generation job for a photo (via API route).
+ * Progress is reported through the generationJobs collection.
+ */
+export async function startGenerationJob(
+  sessionId: string,
+  photoId: string,
+  prompt: string,
+  {
+    presetId,
+    variantCount = 1,
+    modelId,
+    settings,
+    parentResponseId,
+    maskUrl,
+  }: StartGenerationJobOptions = {}
+): Promise<string> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'create',
+      sessionId,
+      photoId,
+      prompt,
+      presetId,
+      variantCount,
+      modelId,
+      settings,
+      parentResponseId,
+      maskUrl,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start generation job');
+  }
+
+  const { jobId } = await response.json();
+  return jobId;
+}
+
+/**
+ * Starts one generation over several photos (via API route). The result is
+ * published on a new composite photo that links back to the sources.
+ */
+export async function startCompositionJob(
+  sessionId: string,
+  sourcePhotoIds: string[], // In the order the model should receive them
+  prompt: string,
+  { presetId, variantCount = 1, modelId, settings }: StartGenerationJobOptions = {}
+): Promise<{ jobId: string; photoId: string }> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      action: 'compose',
+      sessionId,
+      sourcePhotoIds,
+      prompt,
+      presetId,
+      variantCount,
+      modelId,
+      settings,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to start composition');
+  }
+
+  return response.json();
+}
+
+/**
+ * Moves a queued job to the front of the session queue (via API route)
+ */
+export async function bumpGenerationJob(sessionId: string, jobId: string): Promise<void> {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'bump', sessionId, jobId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to bump generation job');
+  }
+}
+
+/**
+ * 1-based queue position of every queued job, in the order the server
+ * starts them: higher priority first, then first in, first out
+ */
+export function getQueuePositions(jobs: GenerationJob[]): Record<string, number> {
+  const positions: Record<string, number> = {};
+  jobs
+    .filter((job) => job.status === 'queued')
+    .sort(
+      (a, b) =>
+        (b.priority ?? 0) - (a.priority ?? 0) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    )
+    .forEach((job, index) => {
+      positions[job.id] = index + 1;
+    });
+  return positions;
+}
+
+/**
+ * Maps a generationJobs document to a GenerationJob
+ */
+export function toGenerationJob(id: string, data: DocumentData): GenerationJob {
+  return {
+    id,
+    photoId: data.photoId,
+    prompt: data.prompt,
+    presetId: data.presetId,
+    presetVersion: data.presetVersion,
+    modelId: data.modelId,
+    modelVersion: data.modelVersion,
+    settings: data.settings,
+    parentResponseId: data.parentResponseId,
+    inputImageUrl: data.inputImageUrl,
+    maskUrl: data.maskUrl,
+    variantCount: data.variantCount,
+    priority: data.priority,
+    auto: data.auto,
+    comparisonId: data.comparisonId,
+    comparisonEntry: data.comparisonEntry,
+    status: data.status,
+    predictionId: data.predictionId,
+    predictionStatus: data.predictionStatus,
+    progress: data.progress,
+    logs: data.logs,
+    expectedPredictTime: data.expectedPredictTime,
+    outputImageUrl: data.outputImageUrl,
+    outputImageStoragePath: data.outputImageStoragePath,
+    error: data.error,
+    errorType: data.errorType,
+    reviewReason: data.reviewReason,
+    createdAt:
+      data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    startedAt:
+      data.startedAt instanceof Timestamp ? data.startedAt.toDate() : undefined,
+    updatedAt:
+      data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : undefined,
+    completedAt:
+      data.completedAt instanceof Timestamp ? data.completedAt.toDate() : undefined,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { applyPresetSettings, getDefaultModelSelection } from '@/lib/models';
+
+describe('getDefaultModelSelection', () => {
+  it('follows the session defaults, else the default model', () => {
+    const sessionDefaults = { modelId: 'flux-fill', settings: { seed: 3 } };
+
+    expect(getDefaultModelSelection(sessionDefaults)).toBe(sessionDefaults);
+    expect(getDefaultModelSelection()).toEqual({
+      modelId: 'seedream-4',
+      settings: { size: '2K', aspect_ratio: 'match_input_image' },
+    });
+  });
+});
+
+describe('applyPresetSettings', () => {
+  const selection = { modelId: 'seedream-4', settings: { size: '4K', seed: 9 } };
+
+  it('lays the preset settings over the selected model', () => {
+    expect(applyPresetSettings(selection, { settings: { aspect_ratio: '1:1' } })).toEqual({
+      modelId: 'seedream-4',
+      settings: { size: '4K', seed: 9, aspect_ratio: '1:1' },
+    });
+  });
+
+  it('switches to the model the preset was saved with', () => {
+    expect(applyPresetSettings(selection, { modelId: 'flux-fill', settings: { seed: 42, size: '2K' } })).toEqual({
+      modelId: 'flux-fill',
+      settings: { seed: 42 },
+    });
+  });
+
+  it('keeps the selected model when the preset model is not available', () => {
+    expect(applyPresetSettings(selection, { modelId: 'retired-model', settings: { size: '1K' } })).toEqual({
+      modelId: 'seedream-4',
+      settings: { size: '1K', seed: 9 },
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import type { ModelSelection, ModelSettings, PromptPreset } from '@/types';
+
+/**
+ * Models the app may run, with the input fields each one accepts.
+ * /api/replicate refuses any version or input field not listed here, and
+ * the model settings panel only offers the fields a model lists.
+ */
+
+interface FieldDisplay {
+  label?: string; // Shown in the model settings panel
+  visibleWhen?: { field: string; value: string }; // Only offered alongside this value
+}
+
+export type InputFieldRule = FieldDisplay &
+  (
+    | {
+        type: 'string';
+        required?: boolean;
+        maxLength?: number;
+        options?: readonly string[];
+        optionLabels?: Record<string, string>;
+      }
+    | { type: 'integer'; min: number; max: number }
+    | { type: 'imageList'; required?: boolean; maxItems: number }
+    | { type: 'image'; required?: boolean } // A single image URL
+  );
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  version: string; // Replicate version hash; models without one are disabled
+  inputs: Record<string, InputFieldRule>;
+  defaults: ModelSettings; // Applied before preset and operator settings
+  singleImage?: boolean; // Takes one image URL instead of a list
+  // Replicate list prices in USD, for cost estimates only
+  pricing: { perSecond?: number; perOutput?: number };
+  // Input field asking for several outputs, plus fields it needs alongside
+  variants: { field: string; extra?: Record<string, unknown> };
+}
+
+// Fields operators choose in the settings panel, in display order.
+// The prompt, images and variant fields are set elsewhere on the card.
+export const MODEL_SETTING_FIELDS = ['size', 'width', 'height', 'aspect_ratio', 'seed'] as const;
+
+export const DEFAULT_MODEL_ID = 'seedream-4';
+
+export const MODELS: ModelDefinition[] = [
+  {
+    id: 'seedream-4',
+    name: 'Seedream 4',
+    version: process.env.NEXT_PUBLIC_REPLICATE_MODEL_VERSION || '',
+    inputs: {
+      prompt: { type: 'string', required: true, maxLength: 2000 },
+      image: { type: 'imageList', required: true, maxItems: 10 },
+      size: {
+        type: 'string',
+        label: 'Size',
+        options: ['1K', '2K', '4K', 'custom'],
+        optionLabels: {
+          '1K': '1K (1024px)',
+          '2K': '2K (2048px)',
+          '4K': '4K (4096px)',
+          custom: 'Custom',
+        },
+      },
+      width: {
+        type: 'integer',
+        label: 'Width',
+        min: 1024,
+        max: 4096,
+        visibleWhen: { field: 'size', value: 'custom' },
+      },
+      height: {
+        type: 'integer',
+        label: 'Height',
+        min: 1024,
+        max: 4096,
+        visibleWhen: { field: 'size', value: 'custom' },
+      },
+      aspect_ratio: {
+        type: 'string',
+        label: 'Aspect',
+        options: [
+          'match_input_image',
+          '1:1',
+          '4:3',
+          '3:4',
+          '16:9',
+          '9:16',
+          '3:2',
+          '2:3',
+          '21:9',
+        ],
+        optionLabels: { match_input_image: 'Match input' },
+      },
+      seed: { type: 'integer', label: 'Seed', min: 0, max: 2147483647 },
+      max_images: { type: 'integer', min: 1, max: 15 },
+      sequential_image_generation: { type: 'string', options: ['disabled', 'auto'] },
+    },
+    defaults: { size: '2K', aspect_ratio: 'match_input_image' },
+    pricing: { perOutput: 0.03 },
+    variants: { field: 'max_images', extra: { sequential_image_generation: 'auto' } },
+  },
+  {
+    id: 'flux-fill',
+    name: 'FLUX Fill (region editing)',
+    version: process.env.NEXT_PUBLIC_REPLICATE_INPAINT_MODEL_VERSION || '',
+    inputs: {
+      prompt: { type: 'string', required: true, maxLength: 2000 },
+      image: { type: 'imageList', required: true, maxItems: 1 },
+      mask: { type: 'image', required: true },
+      seed: { type: 'integer', label: 'Seed', min: 0, max: 2147483647 },
+      num_outputs: { type: 'integer', min: 1, max: 4 },
+    },
+    defaults: {},
+    singleImage: true,
+    pricing: { perOutput: 0.05 },
+    variants: { field: 'num_outputs' },
+  },
+];
+
+/**
+ * Looks up an allowed model by its Replicate version
+ */
+export function getModelByVersion(version: string): ModelDefinition | undefined {
+  if (!version) {
+    return undefined;
+  }
+  return MODELS.find((model) => model.version === version);
+}
+
+/**
+ * Looks up a model that can run (has a version configured)
+ */
+export function getEnabledModel(modelId: string): ModelDefinition | undefined {
+  return MODELS.find((model) => model.id === modelId && model.version);
+}
+
+export function getEnabledModels(): ModelDefinition[] {
+  return MODELS.filter((model) => model.version);
+}
+
+/**
+ * Whether a model can limit its edit to a masked region (inpainting)
+ */
+export function supportsMask(model: ModelDefinition): boolean {
+  return 'mask' in model.inputs;
+}
+
+// Hardware price for predictions of models not listed above (Nvidia A100)
+const FALLBACK_PRICE_PER_SECOND = 0.0014;
+
+/**
+ * Estimated USD cost of a finished prediction. Per-output models only bill
+ * the images they produced; the rest bill run time.
+ */
+export function estimatePredictionCost(
+  model: ModelDefinition | undefined,
+  predictTime: number,
+  outputCount: number
+): number {
+  const pricing = model?.pricing ?? { perSecond: FALLBACK_PRICE_PER_SECOND };
+  return (pricing.perSecond ?? 0) * predictTime + (pricing.perOutput ?? 0) * outputCount;
+}
+
+/**
+ * Keeps only the settings a model supports, e.g. after switching models
+ */
+export function filterModelSettings(
+  model: ModelDefinition,
+  settings: ModelSettings
+): ModelSettings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(
+      ([field, value]) => field in model.inputs && value !== undefined && value !== null
+    )
+  );
+}
+
+/**
+ * What generations run with until the operator changes something: the
+ * session defaults, or the default model's own
+ */
+export function getDefaultModelSelection(modelDefaults?: ModelSelection): ModelSelection {
+  return (
+    modelDefaults ?? {
+      modelId: DEFAULT_MODEL_ID,
+      settings: getEnabledModel(DEFAULT_MODEL_ID)?.defaults ?? {},
+    }
+  );
+}
+
+/**
+ * Lays a preset's settings over a selection. Presets that name a model
+ * switch to it, starting from that model's defaults.
+ */
+export function applyPresetSettings(
+  selection: ModelSelection,
+  preset: Pick<PromptPreset, 'modelId' | 'settings'>
+): ModelSelection {
+  const model =
+    (preset.modelId && getEnabledModel(preset.modelId)) || getEnabledModel(selection.modelId);
+  if (!model) {
+    return selection;
+  }
+  const settings = model.id === selection.modelId ? selection.settings : model.defaults;
+  return {
+    modelId: model.id,
+    settings: { ...settings, ...filterModelSettings(model, preset.settings ?? {}) },
+  };
+}
+
+// Compares settings by value, ignoring key order
+export function isSameModelSelection(a?: ModelSelection, b?: ModelSelection): boolean {
+  if (!a || !b || a.modelId !== b.modelId) {
+    return false;
+  }
+  const aSettings = a.settings as Record<string, unknown>;
+  const bSettings = b.settings as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aSettings), ...Object.keys(bSettings)]);
+  return Array.from(keys).every((key) => aSettings[key] === bSettings[key]);
+}
+
+/**
+ * Short summary of settings, e.g. "2K · Match input · seed 42"
+ */
+export function describeModelSettings(settings: ModelSettings = {}): string {
+  const parts: string[] = [];
+  if (settings.size === 'custom' && settings.width && settings.height) {
+    parts.push(`${settings.width}x${settings.height}`);
+  } else if (settings.size) {
+    parts.push(settings.size);
+  }
+  if (settings.aspect_ratio) {
+    parts.push(settings.aspect_ratio === 'match_input_image' ? 'Match input' : settings.aspect_ratio);
+  }
+  if (settings.seed !== undefined) {
+    parts.push(`seed ${settings.seed}`);
+  }
+  return parts.join(' · ');
+}
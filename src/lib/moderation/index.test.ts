@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getOutputClassifier } from '@/lib/moderation';
+
+describe('getOutputClassifier', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('publishes outputs unchecked unless a classifier is chosen', () => {
+    vi.stubEnv('OUTPUT_CLASSIFIER', '');
+    expect(getOutputClassifier().name).toBe('none');
+
+    vi.stubEnv('OUTPUT_CLASSIFIER', 'rules');
+    expect(getOutputClassifier().name).toBe('rules');
+  });
+
+  it('rejects unknown classifiers', () => {
+    vi.stubEnv('OUTPUT_CLASSIFIER', 'hosted');
+    expect(() => getOutputClassifier()).toThrow('Unknown output classifier: hosted');
+  });
+});
@@ -0,0 +1,25 @@
+import type { OutputClassifier } from '@/lib/moderation/types';
+import { noopClassifier } from '@/lib/moderation/noop';
+import { rulesClassifier } from '@/lib/moderation/rules';
+
+export * from '@/lib/moderation/types';
+export { moderatePrompt } from '@/lib/moderation/prompt';
+
+// Register real classifiers (e.g. a hosted safety API) here
+const CLASSIFIERS: Record<string, OutputClassifier> = {
+  none: noopClassifier,
+  rules: rulesClassifier,
+};
+
+/**
+ * Returns the classifier selected by OUTPUT_CLASSIFIER (default: none).
+ * The rules classifier holds many ordinary portraits, so it is opt-in.
+ */
+export function getOutputClassifier(): OutputClassifier {
+  const name = process.env.OUTPUT_CLASSIFIER || 'none';
+  const classifier = CLASSIFIERS[name];
+  if (!classifier) {
+    throw new Error(`Unknown output classifier: ${name}`);
+  }
+  return classifier;
+}
@@ -0,0 +1,12 @@
+import type { OutputClassifier } from '@/lib/moderation/types';
+
+/**
+ * Publishes every output unchecked; the default classifier
+ */
+export const noopClassifier: OutputClassifier = {
+  name: 'none',
+
+  async classify() {
+    return { flagged: false };
+  },
+};
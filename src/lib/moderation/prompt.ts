@@ -0,0 +1,97 @@
+import type { ModerationResult } from '@/lib/moderation/types';
+
+// Refused anywhere in a prompt, as whole words. MODERATION_BLOCKLIST adds
+// more (comma-separated), e.g. event-specific names.
+const DEFAULT_BLOCKED_TERMS = [
+  'nude',
+  'naked',
+  'nudity',
+  'nsfw',
+  'porn',
+  'porno',
+  'pornographic',
+  'topless',
+  'lingerie',
+  'sexy',
+  'gore',
+  'gory',
+  'decapitated',
+  'swastika',
+  // Turkish, for visitors typing in their own language
+  'ciplak',
+  'mustehcen',
+];
+
+interface PromptRule {
+  id: string;
+  pattern: RegExp;
+  reason: string;
+}
+
+// Checked against the prompt as typed
+const PROMPT_RULES: PromptRule[] = [
+  {
+    id: 'link',
+    pattern: /https?:\/\/|www\./i,
+    reason: 'Prompts cannot contain links',
+  },
+  {
+    id: 'contact_details',
+    pattern: /[\w.+-]+@[\w-]+\.[\w.]+|\+?\d[\d\s-]{8,}\d/,
+    reason: 'Prompts cannot contain email addresses or phone numbers',
+  },
+];
+
+// Undo the usual tricks for slipping a word past a blocklist
+const LOOKALIKES: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  $: 's',
+  ı: 'i',
+};
+
+function normalizePrompt(prompt: string): string {
+  return prompt
+    .toLowerCase()
+    .replace(/[013457@$ı]/g, (char) => LOOKALIKES[char])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function getBlockedTerms(): string[] {
+  const extra = (process.env.MODERATION_BLOCKLIST || '')
+    .split(',')
+    .map((term) => normalizePrompt(term.trim()))
+    .filter(Boolean);
+  return [...DEFAULT_BLOCKED_TERMS, ...extra];
+}
+
+/**
+ * Checks a prompt against the blocklist and rules before it reaches a model
+ */
+export function moderatePrompt(prompt: string): ModerationResult {
+  for (const rule of PROMPT_RULES) {
+    if (rule.pattern.test(prompt)) {
+      return { flagged: true, reason: rule.reason, rule: rule.id };
+    }
+  }
+
+  // Whole words only, so e.g. "gore" doesn't match "Gorey"; padding lets
+  // multi-word terms match the same way
+  const normalized = ` ${normalizePrompt(prompt).split(/[^a-z]+/).join(' ')} `;
+  const term = getBlockedTerms().find((blocked) => normalized.includes(` ${blocked} `));
+  if (term) {
+    return {
+      flagged: true,
+      reason: 'The prompt contains a word that is not allowed at this booth',
+      rule: `blocklist:${term}`,
+    };
+  }
+
+  return { flagged: false };
+}
@@ -0,0 +1,58 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { rulesClassifier } from '@/lib/moderation/rules';
+
+const SIZE = 64;
+type Rgb = [number, number, number];
+
+const SKIN: Rgb = [224, 172, 138];
+const BACKDROP: Rgb = [70, 90, 140];
+const SHIRT: Rgb = [40, 40, 45];
+
+// PNG painted pixel by pixel, with a little noise so it isn't blank
+function paint(colorAt: (x: number, y: number) => Rgb): Promise<Buffer> {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const noise = ((x * 7 + y * 13) % 21) - 10;
+      colorAt(x, y).forEach((value, channel) => {
+        pixels[(y * SIZE + x) * 3 + channel] = Math.min(255, Math.max(0, value + noise));
+      });
+    }
+  }
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } }).png().toBuffer();
+}
+
+function classify(image: Buffer) {
+  return rulesClassifier.classify({ image, contentType: 'image/png', prompt: 'A portrait' });
+}
+
+describe('rulesClassifier', () => {
+  it('holds blank outputs', async () => {
+    const image = await sharp({
+      create: { width: SIZE, height: SIZE, channels: 3, background: { r: 0, g: 0, b: 0 } },
+    })
+      .png()
+      .toBuffer();
+
+    expect(await classify(image)).toMatchObject({ flagged: true, rule: 'blank' });
+  });
+
+  it('holds outputs that are mostly skin tones', async () => {
+    expect(await classify(await paint(() => SKIN))).toMatchObject({
+      flagged: true,
+      rule: 'skin_ratio',
+    });
+  });
+
+  it('publishes a head-and-shoulders portrait', async () => {
+    // Face filling the middle of the frame over a backdrop, shirt below
+    const image = await paint((x, y) => {
+      if (y > SIZE * 0.75) return SHIRT;
+      const inFace = ((x - SIZE / 2) / (SIZE * 0.3)) ** 2 + ((y - SIZE * 0.4) / (SIZE * 0.38)) ** 2 <= 1;
+      return inFace ? SKIN : BACKDROP;
+    });
+
+    expect(await classify(image)).toEqual({ flagged: false });
+  });
+});
@@ -0,0 +1,63 @@
+import sharp from 'sharp';
+import type { OutputClassifier } from '@/lib/moderation/types';
+
+// Share of skin-coloured pixels above which an output is held for review
+const SKIN_RATIO_THRESHOLD = Number(process.env.MODERATION_SKIN_RATIO ?? 0.6);
+
+// Images are checked at this size; enough for colour statistics
+const SAMPLE_SIZE = 64;
+
+// Classic RGB skin rule (Kovac et al.), good enough for a heuristic
+function isSkin(r: number, g: number, b: number): boolean {
+  return (
+    r > 95 &&
+    g > 40 &&
+    b > 20 &&
+    Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+    Math.abs(r - g) > 15 &&
+    r > g &&
+    r > b
+  );
+}
+
+/**
+ * Local stand-in for a real classifier. Holds back blank images (what
+ * models return when their own safety filter trips) and images that are
+ * mostly skin. Expect false positives; held outputs only need a review.
+ */
+export const rulesClassifier: OutputClassifier = {
+  name: 'rules',
+
+  async classify({ image }) {
+    const { channels } = await sharp(image).stats();
+    if (channels.slice(0, 3).every((channel) => channel.stdev < 4)) {
+      return {
+        flagged: true,
+        reason: 'The output is blank, which usually means the model blocked it',
+        rule: 'blank',
+      };
+    }
+
+    const pixels = await sharp(image)
+      .removeAlpha()
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+    let skinPixels = 0;
+    for (let i = 0; i < pixels.length; i += 3) {
+      if (isSkin(pixels[i], pixels[i + 1], pixels[i + 2])) {
+        skinPixels++;
+      }
+    }
+    const skinRatio = skinPixels / (pixels.length / 3);
+    if (skinRatio > SKIN_RATIO_THRESHOLD) {
+      return {
+        flagged: true,
+        reason: `The output is ${Math.round(skinRatio * 100)}% skin tones`,
+        rule: 'skin_ratio',
+      };
+    }
+
+    return { flagged: false };
+  },
+};
@@ -0,0 +1,33 @@
+export interface ModerationResult {
+  flagged: boolean;
+  reason?: string; // Shown to operators and stored on the aiResponses entry
+  rule?: string; // ID of the rule or term that matched
+}
+
+export interface OutputClassifierInput {
+  image: Buffer; // The generated image, as stored
+  contentType: string;
+  prompt: string; // Prompt the image was generated from
+}
+
+/**
+ * Checks generated images before they can be published. Implementations
+ * live next to this file and are registered in ./index.ts.
+ */
+export interface OutputClassifier {
+  name: string;
+  classify(input: OutputClassifierInput): Promise<ModerationResult>;
+}
+
+/**
+ * A prompt refused by moderation, before any prediction was created
+ */
+export class ModerationError extends Error {
+  rule?: string;
+
+  constructor(message: string, rule?: string) {
+    super(message);
+    this.name = 'ModerationError';
+    this.rule = rule;
+  }
+}
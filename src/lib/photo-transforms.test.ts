@@ -0,0 +1,57 @@
+import sharp from 'sharp';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { transformPhotoInput } from '@/lib/photo-transforms';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import type { FakeBucket, FakeFirestore } from '@/test/firestore';
+
+vi.mock('@/lib/firebase-admin', async () => {
+  const { FakeFirestore, FakeBucket } = await import('@/test/firestore');
+  return { adminDb: new FakeFirestore(), adminBucket: new FakeBucket() };
+});
+vi.mock('firebase-admin/storage', async () => {
+  const { getDownloadURL } = await import('@/test/firestore');
+  return { getDownloadURL };
+});
+
+const db = adminDb as unknown as FakeFirestore;
+const bucket = adminBucket as unknown as FakeBucket;
+
+const SESSION_ID = 'session-1';
+const PHOTOS_PATH = `sessions/${SESSION_ID}/photos`;
+const INPUT_PATH = `stant_images/input/${SESSION_ID}/photo-a.png`;
+const INPUT_URL = 'https://example.com/photo-a.png';
+
+describe('transformPhotoInput', () => {
+  beforeEach(async () => {
+    db.docs.clear();
+    bucket.files.clear();
+    const image = await sharp({
+      create: { width: 4, height: 2, channels: 3, background: { r: 200, g: 40, b: 40 } },
+    })
+      .png()
+      .toBuffer();
+    await bucket.file(INPUT_PATH).save(image, { contentType: 'image/png' });
+    db.set(`${PHOTOS_PATH}/photo-a`, { url: INPUT_URL, storagePath: INPUT_PATH });
+    db.set(`${PHOTOS_PATH}/photo-b`, { url: 'https://example.com/photo-b.png' });
+  });
+
+  it('replaces the input file and points composites shown with it at the new one', async () => {
+    db.set(`${PHOTOS_PATH}/composite-ab`, { url: INPUT_URL, sourcePhotoIds: ['photo-a', 'photo-b'] });
+    db.set(`${PHOTOS_PATH}/composite-ba`, {
+      url: 'https://example.com/photo-b.png',
+      sourcePhotoIds: ['photo-b', 'photo-a'],
+    });
+
+    const input = await transformPhotoInput(SESSION_ID, 'photo-a', 'rotate_right');
+
+    expect(input.storagePath).toMatch(/^stant_images\/input\/session-1\/photo-a_t\d+\.png$/);
+    expect(Array.from(bucket.files.keys())).toEqual([input.storagePath]);
+    expect(await sharp(bucket.files.get(input.storagePath)!.data).metadata()).toMatchObject({
+      width: 2,
+      height: 4,
+    });
+    expect(db.get(`${PHOTOS_PATH}/photo-a`)).toMatchObject(input);
+    expect(db.get(`${PHOTOS_PATH}/composite-ab`)?.url).toBe(input.url);
+    expect(db.get(`${PHOTOS_PATH}/composite-ba`)?.url).toBe('https://example.com/photo-b.png');
+  });
+});
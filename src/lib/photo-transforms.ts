@@ -0,0 +1,145 @@
+import sharp from 'sharp';
+import { getDownloadURL } from 'firebase-admin/storage';
+import { adminDb, adminBucket } from '@/lib/firebase-admin';
+import { getCropPixels } from '@/lib/transforms';
+import type { PhotoTransform, PhotoTransformOperation } from '@/types';
+
+export const PHOTO_TRANSFORM_OPERATIONS: PhotoTransformOperation[] = [
+  'rotate_left',
+  'rotate_right',
+  'flip_horizontal',
+  'flip_vertical',
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+/**
+ * Applies the operation to an image file, keeping its format
+ */
+async function transformImage(
+  image: Buffer,
+  operation: PhotoTransformOperation
+): Promise<{ data: Buffer; format: string }> {
+  const { format = 'png' } = await sharp(image).metadata();
+  let pipeline = sharp(image);
+  switch (operation) {
+    case 'rotate_left':
+      pipeline = pipeline.rotate(270);
+      break;
+    case 'rotate_right':
+      pipeline = pipeline.rotate(90);
+      break;
+    case 'flip_horizontal':
+      pipeline = pipeline.flop();
+      break;
+    case 'flip_vertical':
+      pipeline = pipeline.flip();
+      break;
+  }
+
+  // Formats we don't write keep working as PNG
+  const outputFormat = format in CONTENT_TYPES ? format : 'png';
+  const data = await pipeline.toFormat(outputFormat as keyof sharp.FormatEnum).toBuffer();
+  return { data, format: outputFormat };
+}
+
+/**
+ * Rewrites a stored file with the operation applied, under a new name so
+ * cached copies of the old one aren't shown, and deletes the old file
+ */
+async function rewriteStoredImage(
+  storagePath: string,
+  operation: PhotoTransformOperation
+): Promise<{ url: string; storagePath: string }> {
+  const [original] = await adminBucket.file(storagePath).download();
+  const { data, format } = await transformImage(original, operation);
+
+  const newPath = `${storagePath.replace(/(_t\d+)?\.[^./]+$/, '')}_t${Date.now()}.${
+    format === 'jpeg' ? 'jpg' : format
+  }`;
+  const file = adminBucket.file(newPath);
+  await file.save(data, { contentType: CONTENT_TYPES[format] });
+  const url = await getDownloadURL(file);
+
+  await adminBucket
+    .file(storagePath)
+    .delete()
+    .catch((err) => console.error('Failed to delete replaced image:', err));
+
+  return { url, storagePath: newPath };
+}
+
+/**
+ * Rotates or flips a photo's stored input, so the model, the collage and
+ * downloads all get the corrected image. A mask painted on the input is
+ * turned with it, and composites showing this input get the new file.
+ */
+export async function transformPhotoInput(
+  sessionId: string,
+  photoId: string,
+  operation: PhotoTransformOperation
+): Promise<{ url: string; storagePath: string }> {
+  const photos = adminDb.collection('sessions').doc(sessionId).collection('photos');
+  const photoRef = photos.doc(photoId);
+  const photo = (await photoRef.get()).data();
+  if (!photo) {
+    throw new Error('Photo not found');
+  }
+  if (photo.sourcePhotoIds || !photo.storagePath) {
+    throw new Error('This photo has no input file to rotate');
+  }
+
+  const input = await rewriteStoredImage(photo.storagePath, operation);
+
+  // Masks on an AI output follow that output, not the input
+  let mask = photo.mask;
+  if (mask?.storagePath && !mask.responseId) {
+    mask = { ...mask, ...(await rewriteStoredImage(mask.storagePath, operation)) };
+  }
+
+  await photoRef.update({
+    url: input.url,
+    storagePath: input.storagePath,
+    ...(mask ? { mask } : {}),
+  });
+
+  // Composites stand in their first source's input (the old file is gone)
+  const composites = await photos.where('sourcePhotoIds', 'array-contains', photoId).get();
+  await Promise.all(
+    composites.docs
+      .filter((composite) => composite.get('sourcePhotoIds')[0] === photoId)
+      .map((composite) => composite.ref.update({ url: input.url }))
+  );
+
+  return input;
+}
+
+/**
+ * Renders a published output with its display transform, in the stored
+ * file's format. Sharp crops, mirrors and then rotates, the same order the
+ * dashboard and the collage draw it in.
+ */
+export async function renderTransformedImage(
+  image: Buffer,
+  transform: PhotoTransform
+): Promise<{ data: Buffer; contentType: string }> {
+  const { width = 0, height = 0, format = 'png' } = await sharp(image).metadata();
+  let pipeline = sharp(image);
+  if (transform.crop) {
+    pipeline = pipeline.extract(getCropPixels(transform.crop, width, height));
+  }
+  if (transform.flip) {
+    pipeline = pipeline.flop();
+  }
+  if (transform.rotation) {
+    pipeline = pipeline.rotate(transform.rotation);
+  }
+
+  const outputFormat = format in CONTENT_TYPES ? format : 'png';
+  const data = await pipeline.toFormat(outputFormat as keyof sharp.FormatEnum).toBuffer();
+  return { data, contentType: CONTENT_TYPES[outputFormat] };
+}
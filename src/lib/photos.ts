@@ -0,0 +1,50 @@
+import type { PhotoTransformOperation } from '@/types';
+
+/**
+ * Adds an uploaded file to the session (via API route). The server starts
+ * its generation right away when the session is in auto mode.
+ */
+export async function registerUploadedPhoto(
+  sessionId: string,
+  url: string,
+  storagePath: string
+): Promise<string> {
+  const response = await fetch('/api/photos', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ sessionId, url, storagePath }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to save photo');
+  }
+
+  const { photoId } = await response.json();
+  return photoId;
+}
+
+/**
+ * Rotates or flips a photo's stored input (via API route), replacing the
+ * file the model and the collage use
+ */
+export async function transformPhotoInput(
+  sessionId: string,
+  photoId: string,
+  operation: PhotoTransformOperation
+): Promise<void> {
+  const response = await fetch('/api/photos', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action: 'transform', sessionId, photoId, operation }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to transform photo');
+  }
+}
@@ -0,0 +1,53 @@
+import { Timestamp, DocumentData } from 'firebase/firestore';
+import type { PromptPreset } from '@/types';
+
+const VARIABLE_PATTERN = /\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * Lists the unique {variable} names used in a prompt template, in order
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const names = Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Fills a prompt template. Variables without a value are left as-is
+ * so missing inputs stay visible in the prompt.
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+}
+
+/**
+ * Asks for the placeholders a prompt still has, e.g. "Fill in {gender} first"
+ */
+export function describeUnfilledVariables(names: string[]): string {
+  return `Fill in ${names.map((name) => `{${name}}`).join(', ')} first`;
+}
+
+/**
+ * Maps a presets document to a PromptPreset
+ */
+export function toPromptPreset(id: string, data: DocumentData): PromptPreset {
+  return {
+    id,
+    name: data.name,
+    template: data.template,
+    thumbnailUrl: data.thumbnailUrl,
+    thumbnailStoragePath: data.thumbnailStoragePath,
+    settings: data.settings,
+    modelId: data.modelId,
+    version: data.version ?? 1,
+    createdAt:
+      data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt:
+      data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : undefined,
+  };
+}
@@ -0,0 +1,24 @@
+import type { GenerationProvider } from '@/lib/providers/types';
+import { replicateProvider } from '@/lib/providers/replicate';
+import { mockProvider } from '@/lib/providers/mock';
+
+export * from '@/lib/providers/types';
+export { getWebhookUrl } from '@/lib/providers/replicate';
+
+// Register new backends (e.g. a self-hosted HTTP server) here
+const PROVIDERS: Record<string, GenerationProvider> = {
+  replicate: replicateProvider,
+  mock: mockProvider,
+};
+
+/**
+ * Returns the provider selected by GENERATION_PROVIDER (default: replicate)
+ */
+export function getProvider(): GenerationProvider {
+  const name = process.env.GENERATION_PROVIDER || 'replicate';
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(`Unknown generation provider: ${name}`);
+  }
+  return provider;
+}
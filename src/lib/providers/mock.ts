@@ -0,0 +1,221 @@
+import { randomUUID } from 'crypto';
+import sharp, { Sharp } from 'sharp';
+import {
+  GenerationProvider,
+  ProviderError,
+  ProviderPrediction,
+} from '@/lib/providers/types';
+
+// Simulated model run time, so the dashboard shows real status transitions
+const MOCK_DELAY_MS = Number(process.env.MOCK_PROVIDER_DELAY_MS ?? 2000);
+// Steps logged during that time, so progress bars have something to show
+const MOCK_STEPS = 4;
+
+interface MockFilter {
+  name: string;
+  pattern: RegExp;
+  apply: (image: Sharp) => Sharp;
+}
+
+// Filters picked from prompt keywords, applied in this order
+const FILTERS: MockFilter[] = [
+  {
+    name: 'grayscale',
+    pattern: /gr[ae]y|black and white|monochrome|noir/i,
+    apply: (image) => image.grayscale(),
+  },
+  {
+    name: 'sepia',
+    pattern: /sepia|vintage|retro/i,
+    apply: (image) =>
+      image.recomb([
+        [0.393, 0.769, 0.189],
+        [0.349, 0.686, 0.168],
+        [0.272, 0.534, 0.131],
+      ]),
+  },
+  {
+    name: 'invert',
+    pattern: /invert|negative/i,
+    apply: (image) => image.negate({ alpha: false }),
+  },
+  {
+    name: 'blur',
+    pattern: /blur|dream|soft/i,
+    apply: (image) => image.blur(6),
+  },
+];
+
+// Posterise is done by the PNG encoder (palette reduction) rather than a filter
+const POSTERISE_PATTERN = /posteri[sz]e|poster|pop art|comic|cartoon/i;
+
+// Kept on globalThis so every route bundle in the same process sees the same predictions
+const globalForMock = globalThis as typeof globalThis & {
+  mockPredictions?: Map<string, ProviderPrediction>;
+};
+const predictions = (globalForMock.mockPredictions ??= new Map());
+
+async function loadImage(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load input image (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Keeps the transformed image only where the mask is white, like inpainting
+ */
+async function applyMask(original: Buffer, transformed: Buffer, maskUrl: string) {
+  const { width, height } = await sharp(original).metadata();
+  if (!width || !height) {
+    throw new Error('Could not read input image size');
+  }
+
+  const alpha = await sharp(await loadImage(maskUrl))
+    .resize(width, height, { fit: 'fill' })
+    .greyscale()
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+  const masked = await sharp(transformed)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(original).composite([{ input: masked }]);
+}
+
+/**
+ * Deterministically transforms the input image based on the prompt.
+ * Extra variants get a fixed hue shift each, so they are told apart easily.
+ */
+async function renderMockOutput(
+  prompt: string,
+  imageUrl: string,
+  count: number,
+  maskUrl?: string
+) {
+  const filters = FILTERS.filter((filter) => filter.pattern.test(prompt));
+  const posterise = POSTERISE_PATTERN.test(prompt);
+  const input = await loadImage(imageUrl);
+
+  const dataUrls: string[] = [];
+  for (let index = 0; index < count; index++) {
+    let image = sharp(input);
+    if (filters.length === 0 && !posterise) {
+      // No keyword matched: make the change visible anyway
+      image = image.modulate({ saturation: 1.5, brightness: 1.05 });
+    }
+    filters.forEach((filter) => {
+      image = filter.apply(image);
+    });
+    if (index > 0) {
+      image = image.modulate({ hue: index * 45 });
+    }
+    if (maskUrl) {
+      image = await applyMask(input, await image.png().toBuffer(), maskUrl);
+    }
+
+    const output = await image
+      .png(posterise ? { palette: true, colours: 8, dither: 0 } : {})
+      .toBuffer();
+    dataUrls.push(`data:image/png;base64,${output.toString('base64')}`);
+  }
+
+  const applied = [...filters.map((filter) => filter.name), ...(posterise ? ['posterise'] : [])];
+  return {
+    dataUrls,
+    logs: `Applying filters: ${applied.length ? applied.join(', ') : 'vivid'}\n`,
+  };
+}
+
+/**
+ * Offline provider for rehearsals and local testing: no network calls to a
+ * model host and no API token. Outputs are returned as data URLs.
+ */
+export const mockProvider: GenerationProvider = {
+  name: 'mock',
+  supportsWebhooks: false,
+  supportsMasks: true,
+  billed: false, // Nothing runs on the model host, so budgets are untouched
+
+  async create(version, input) {
+    const imageUrl = input.image?.[0];
+    if (!imageUrl) {
+      throw new ProviderError('Mock provider needs an input image', 422);
+    }
+
+    const prediction: ProviderPrediction = {
+      id: `mock-${randomUUID()}`,
+      version,
+      status: 'starting',
+    };
+    predictions.set(prediction.id, prediction);
+
+    const startedAt = Date.now();
+    for (let step = 1; step < MOCK_STEPS; step++) {
+      setTimeout(() => {
+        const current = predictions.get(prediction.id);
+        if (!current || current.status === 'canceled') return;
+
+        current.status = 'processing';
+        current.logs = `${current.logs ?? ''}Step ${step}/${MOCK_STEPS}\n`;
+      }, (MOCK_DELAY_MS / MOCK_STEPS) * step);
+    }
+
+    setTimeout(async () => {
+      const current = predictions.get(prediction.id);
+      if (!current || current.status === 'canceled') return;
+
+      current.status = 'processing';
+      try {
+        const { dataUrls, logs } = await renderMockOutput(
+          input.prompt,
+          imageUrl,
+          Math.max(Number(input.max_images || input.num_outputs) || 1, 1),
+          input.mask
+        );
+        if (current.status === 'canceled') return;
+        Object.assign(current, {
+          status: 'succeeded',
+          output: dataUrls,
+          logs: `${current.logs ?? ''}Step ${MOCK_STEPS}/${MOCK_STEPS}\n${logs}`,
+          metrics: { predict_time: (Date.now() - startedAt) / 1000 },
+        });
+      } catch (err) {
+        Object.assign(current, {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Mock rendering failed',
+        });
+      }
+    }, MOCK_DELAY_MS);
+
+    return { ...prediction };
+  },
+
+  async get(predictionId) {
+    const prediction = predictions.get(predictionId);
+    if (!prediction) {
+      throw new ProviderError('Prediction not found', 404);
+    }
+    return { ...prediction };
+  },
+
+  async cancel(predictionId) {
+    const prediction = predictions.get(predictionId);
+    if (!prediction) {
+      throw new ProviderError('Prediction not found', 404);
+    }
+    if (prediction.status === 'starting' || prediction.status === 'processing') {
+      prediction.status = 'canceled';
+    }
+    return { ...prediction };
+  },
+
+  normalizeOutput(output) {
+    return Array.isArray(output) ? output : [];
+  },
+};
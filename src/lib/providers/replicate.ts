@@ -0,0 +1,128 @@
+import type { ReplicateModelInput } from '@/types';
+import { withRetry, RetryOptions } from '@/lib/generation-errors';
+import { getModelByVersion } from '@/lib/models';
+import {
+  GenerationProvider,
+  ProviderError,
+  ProviderPrediction,
+} from '@/lib/providers/types';
+
+const REPLICATE_API_URL = 'https://api.replicate.com/v1/predictions';
+
+function getToken(): string {
+  const token = process.env.REPLICATE_API_TOKEN;
+  if (!token) {
+    throw new ProviderError('Replicate API token not configured', 500);
+  }
+  return token;
+}
+
+/**
+ * Builds the webhook URL Replicate should call for a prediction.
+ * Returns undefined when no public base URL is configured (local development),
+ * in which case callers fall back to polling.
+ */
+export function getWebhookUrl(params: Record<string, string | undefined>): string | undefined {
+  const baseUrl = process.env.REPLICATE_WEBHOOK_BASE_URL;
+  if (!baseUrl) {
+    return undefined;
+  }
+
+  const url = new URL('/api/replicate/webhook', baseUrl);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) {
+      url.searchParams.set(key, value);
+    }
+  });
+  return url.toString();
+}
+
+async function request(
+  path: string,
+  init: RequestInit,
+  failureMessage: string,
+  retryOptions?: RetryOptions
+): Promise<ProviderPrediction> {
+  const token = getToken();
+
+  return withRetry(async () => {
+    const response = await fetch(`${REPLICATE_API_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Token ${token}`,
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new ProviderError(`${failureMessage}: ${error}`, response.status);
+    }
+
+    return response.json();
+  }, retryOptions);
+}
+
+/**
+ * Replicate-hosted models (server-side only, uses REPLICATE_API_TOKEN)
+ */
+export const replicateProvider: GenerationProvider = {
+  name: 'replicate',
+  supportsWebhooks: true,
+  supportsMasks: true, // When the model has a mask input (see lib/models)
+  billed: true,
+
+  async create(version, input, options) {
+    if (!version) {
+      throw new ProviderError('Replicate model version not configured', 500);
+    }
+
+    // Some models take one image URL rather than a list
+    const modelInput: Partial<ReplicateModelInput> | Record<string, unknown> =
+      getModelByVersion(version)?.singleImage ? { ...input, image: input.image[0] } : input;
+    return request(
+      '',
+      {
+        method: 'POST',
+        body: JSON.stringify(
+          options?.webhook
+            ? {
+                version,
+                input: modelInput,
+                webhook: options.webhook,
+                webhook_events_filter: ['start', 'logs', 'completed'],
+              }
+            : { version, input: modelInput }
+        ),
+      },
+      'Failed to create prediction',
+      // A failed create may still have started a prediction upstream, so only
+      // retry when Replicate explicitly refused it
+      { shouldRetry: (error) => error.type === 'rate_limited' }
+    );
+  },
+
+  async get(predictionId) {
+    return request(`/${predictionId}`, { method: 'GET' }, 'Failed to get prediction');
+  },
+
+  async cancel(predictionId) {
+    return request(
+      `/${predictionId}/cancel`,
+      { method: 'POST' },
+      'Failed to cancel prediction'
+    );
+  },
+
+  // Replicate output is usually an array of image URLs
+  normalizeOutput(output) {
+    if (Array.isArray(output)) {
+      return output.filter((item): item is string => typeof item === 'string');
+    }
+    if (typeof output === 'string') {
+      return [output];
+    }
+    return [];
+  },
+};
@@ -0,0 +1,57 @@
+import type { GenerationInput } from '@/types';
+
+export type PredictionStatus =
+  | 'starting'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface ProviderPrediction {
+  id: string;
+  version?: string; // Model version the prediction ran
+  status: PredictionStatus;
+  output?: any;
+  error?: any;
+  logs?: string;
+  metrics?: {
+    predict_time?: number; // Seconds spent running the model
+  };
+}
+
+export interface CreatePredictionOptions {
+  webhook?: string; // URL notified on start and completion, if supported
+}
+
+/**
+ * An image-generation backend. Implementations live next to this file and
+ * are registered in ./index.ts.
+ */
+export interface GenerationProvider {
+  name: string;
+  supportsWebhooks: boolean;
+  supportsMasks: boolean; // Honours GenerationInput.mask (inpainting)
+  billed: boolean; // Runs the real models; unbilled predictions are recorded at no cost
+  create(
+    version: string,
+    input: GenerationInput,
+    options?: CreatePredictionOptions
+  ): Promise<ProviderPrediction>;
+  get(predictionId: string): Promise<ProviderPrediction>;
+  cancel(predictionId: string): Promise<ProviderPrediction>;
+  // Turns the provider-specific output into a list of image URLs
+  normalizeOutput(output: any): string[];
+}
+
+/**
+ * Error returned by a provider, keeping the upstream status code
+ */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
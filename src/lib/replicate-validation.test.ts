@@ -0,0 +1,270 @@
+import { describe, expect, it } from 'vitest';
+import { getEnabledModel } from '@/lib/models';
+import {
+  RequestValidationError,
+  isOwnStorageUrl,
+  validateModelSettings,
+  validateReplicateRequest,
+} from '@/lib/replicate-validation';
+
+const BUCKET = 'test-bucket.appspot.com';
+const OWN_IMAGE = `https://firebasestorage.googleapis.com/v0/b/${BUCKET}/o/stant_images%2Finput%2Fs1%2Fphoto.jpg?alt=media`;
+const OTHER_IMAGE = 'https://firebasestorage.googleapis.com/v0/b/other-bucket/o/photo.jpg?alt=media';
+
+const seedream = getEnabledModel('seedream-4')!;
+
+function createBody(input: Record<string, unknown>, version = 'seedream-test-version') {
+  return { action: 'create', version, input: { prompt: 'A watercolor', image: [OWN_IMAGE], ...input } };
+}
+
+// Runs the validator and returns what it rejected with
+function rejection(validate: () => unknown) {
+  try {
+    validate();
+  } catch (err) {
+    expect(err).toBeInstanceOf(RequestValidationError);
+    const { code, field, status } = err as RequestValidationError;
+    return { code, field, status };
+  }
+  throw new Error('Expected a RequestValidationError');
+}
+
+describe('isOwnStorageUrl', () => {
+  it('accepts Firebase download URLs and Cloud Storage URLs from the bucket', () => {
+    expect(isOwnStorageUrl(OWN_IMAGE, BUCKET)).toBe(true);
+    expect(isOwnStorageUrl(`https://storage.googleapis.com/${BUCKET}/stant_images/a.jpg`, BUCKET)).toBe(
+      true
+    );
+  });
+
+  it('rejects other buckets, plain http and other hosts', () => {
+    expect(isOwnStorageUrl(OTHER_IMAGE, BUCKET)).toBe(false);
+    expect(isOwnStorageUrl(OWN_IMAGE.replace('https:', 'http:'), BUCKET)).toBe(false);
+    expect(isOwnStorageUrl(`https://evil.example.com/v0/b/${BUCKET}/o/a.jpg`, BUCKET)).toBe(false);
+    expect(isOwnStorageUrl(`https://storage.googleapis.com/${BUCKET}-copy/a.jpg`, BUCKET)).toBe(false);
+  });
+
+  it('rejects values that are not URLs and an unconfigured bucket', () => {
+    expect(isOwnStorageUrl('not a url', BUCKET)).toBe(false);
+    expect(isOwnStorageUrl(OWN_IMAGE, '')).toBe(false);
+  });
+});
+
+describe('validateReplicateRequest', () => {
+  it('passes an allowed create request through, without a job to report to', () => {
+    const request = validateReplicateRequest(
+      { ...createBody({ size: '2K', max_images: 2 }), sessionId: 's1', jobId: 'j1' },
+      BUCKET
+    );
+
+    expect(request).toEqual({
+      action: 'create',
+      version: 'seedream-test-version',
+      input: { prompt: 'A watercolor', image: [OWN_IMAGE], size: '2K', max_images: 2 },
+      sessionId: 's1',
+    });
+  });
+
+  it('sends a single image URL on as a list', () => {
+    const request = validateReplicateRequest(createBody({ image: OWN_IMAGE }), BUCKET);
+
+    expect(request.action === 'create' && request.input.image).toEqual([OWN_IMAGE]);
+  });
+
+  it('rejects bodies that are not objects and unknown actions', () => {
+    expect(rejection(() => validateReplicateRequest([], BUCKET))).toEqual({
+      code: 'invalid_body',
+      field: undefined,
+      status: 400,
+    });
+    expect(rejection(() => validateReplicateRequest({ action: 'delete' }, BUCKET))).toEqual({
+      code: 'invalid_action',
+      field: 'action',
+      status: 400,
+    });
+  });
+
+  it('rejects a version that is not on the allowlist with 403', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({}, 'some-other-version'), BUCKET))).toEqual({
+      code: 'model_not_allowed',
+      field: 'version',
+      status: 403,
+    });
+  });
+
+  it('requires a version', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({}, ''), BUCKET))).toEqual({
+      code: 'missing_field',
+      field: 'version',
+      status: 400,
+    });
+  });
+
+  it('rejects input fields the model does not list', () => {
+    expect(
+      rejection(() => validateReplicateRequest(createBody({ disable_safety_checker: true }), BUCKET))
+    ).toEqual({ code: 'input_not_allowed', field: 'input.disable_safety_checker', status: 400 });
+  });
+
+  it('rejects a mask field on a model without masks', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({ mask: OWN_IMAGE }), BUCKET))).toEqual({
+      code: 'input_not_allowed',
+      field: 'input.mask',
+      status: 400,
+    });
+  });
+
+  it('requires the prompt and the images', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({ prompt: '  ' }), BUCKET))).toEqual({
+      code: 'missing_field',
+      field: 'input.prompt',
+      status: 400,
+    });
+    expect(rejection(() => validateReplicateRequest(createBody({ image: null }), BUCKET))).toEqual({
+      code: 'missing_field',
+      field: 'input.image',
+      status: 400,
+    });
+  });
+
+  it('rejects images from another bucket or over http with 403', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({ image: [OTHER_IMAGE] }), BUCKET))).toEqual({
+      code: 'image_not_allowed',
+      field: 'input.image',
+      status: 403,
+    });
+    expect(
+      rejection(() =>
+        validateReplicateRequest(createBody({ image: [OWN_IMAGE.replace('https:', 'http:')] }), BUCKET)
+      )
+    ).toEqual({ code: 'image_not_allowed', field: 'input.image', status: 403 });
+  });
+
+  it('rejects a mask from another bucket with 403', () => {
+    const body = {
+      action: 'create',
+      version: 'flux-fill-test-version',
+      input: { prompt: 'A hat', image: [OWN_IMAGE], mask: OTHER_IMAGE },
+    };
+
+    expect(rejection(() => validateReplicateRequest(body, BUCKET))).toEqual({
+      code: 'image_not_allowed',
+      field: 'input.mask',
+      status: 403,
+    });
+  });
+
+  it('limits image lists to maxItems', () => {
+    const images = Array.from({ length: 11 }, () => OWN_IMAGE);
+
+    expect(rejection(() => validateReplicateRequest(createBody({ image: images }), BUCKET))).toEqual({
+      code: 'invalid_field',
+      field: 'input.image',
+      status: 400,
+    });
+    expect(() =>
+      validateReplicateRequest(createBody({ image: images.slice(0, 10) }), BUCKET)
+    ).not.toThrow();
+  });
+
+  it('keeps integers whole and within their bounds', () => {
+    for (const max_images of [0, 16, 2.5, '2']) {
+      expect(rejection(() => validateReplicateRequest(createBody({ max_images }), BUCKET))).toEqual({
+        code: 'invalid_field',
+        field: 'input.max_images',
+        status: 400,
+      });
+    }
+    expect(() => validateReplicateRequest(createBody({ max_images: 1 }), BUCKET)).not.toThrow();
+    expect(() => validateReplicateRequest(createBody({ max_images: 15 }), BUCKET)).not.toThrow();
+  });
+
+  it('rejects string values outside the allowed options', () => {
+    expect(rejection(() => validateReplicateRequest(createBody({ size: '8K' }), BUCKET))).toEqual({
+      code: 'invalid_field',
+      field: 'input.size',
+      status: 400,
+    });
+  });
+
+  it('checks prediction IDs against the Replicate pattern', () => {
+    expect(validateReplicateRequest({ action: 'cancel', predictionId: 'q7d3x2mxs5rj00cr' }, BUCKET)).toEqual({
+      action: 'cancel',
+      predictionId: 'q7d3x2mxs5rj00cr',
+      sessionId: undefined,
+      jobId: undefined,
+    });
+
+    for (const predictionId of ['../../account', 'ABC123', 'abc?x=1', 42]) {
+      expect(rejection(() => validateReplicateRequest({ action: 'cancel', predictionId }, BUCKET))).toEqual({
+        code: 'invalid_field',
+        field: 'predictionId',
+        status: 400,
+      });
+    }
+  });
+
+  it('requires a prediction ID for get', () => {
+    expect(rejection(() => validateReplicateRequest({ action: 'get' }, BUCKET))).toEqual({
+      code: 'missing_field',
+      field: 'predictionId',
+      status: 400,
+    });
+  });
+
+  it('rejects session and job IDs with slashes', () => {
+    expect(
+      rejection(() => validateReplicateRequest({ action: 'cancel', sessionId: 'a/../b' }, BUCKET))
+    ).toEqual({ code: 'invalid_field', field: 'sessionId', status: 400 });
+  });
+});
+
+describe('validateModelSettings', () => {
+  it('keeps allowed settings and drops empty values', () => {
+    expect(validateModelSettings(seedream, { size: 'custom', width: 2048, seed: null })).toEqual({
+      size: 'custom',
+      width: 2048,
+    });
+    expect(validateModelSettings(seedream, undefined)).toEqual({});
+  });
+
+  it('only allows the fields operators choose in the settings panel', () => {
+    // max_images is a model input, but the variant count sets it
+    expect(rejection(() => validateModelSettings(seedream, { max_images: 15 }))).toEqual({
+      code: 'input_not_allowed',
+      field: 'settings.max_images',
+      status: 400,
+    });
+    expect(rejection(() => validateModelSettings(seedream, { prompt: 'x' }))).toEqual({
+      code: 'input_not_allowed',
+      field: 'settings.prompt',
+      status: 400,
+    });
+  });
+
+  it('checks types and integer bounds', () => {
+    expect(rejection(() => validateModelSettings(seedream, { width: 512 }))).toEqual({
+      code: 'invalid_field',
+      field: 'settings.width',
+      status: 400,
+    });
+    expect(rejection(() => validateModelSettings(seedream, { seed: -1 }))).toEqual({
+      code: 'invalid_field',
+      field: 'settings.seed',
+      status: 400,
+    });
+    expect(rejection(() => validateModelSettings(seedream, { size: 2 }))).toEqual({
+      code: 'invalid_field',
+      field: 'settings.size',
+      status: 400,
+    });
+  });
+
+  it('rejects settings that are not an object', () => {
+    expect(rejection(() => validateModelSettings(seedream, ['size']))).toEqual({
+      code: 'invalid_field',
+      field: 'settings',
+      status: 400,
+    });
+  });
+});
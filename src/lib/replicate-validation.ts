@@ -0,0 +1,338 @@
+import {
+  getModelByVersion,
+  InputFieldRule,
+  ModelDefinition,
+  MODEL_SETTING_FIELDS,
+} from '@/lib/models';
+import type { GenerationInput, ModelSettings } from '@/types';
+
+export type ValidationErrorCode =
+  | 'invalid_body'
+  | 'invalid_action'
+  | 'missing_field'
+  | 'invalid_field'
+  | 'model_not_allowed'
+  | 'input_not_allowed'
+  | 'image_not_allowed';
+
+/**
+ * A rejected API request, returned to the caller as a 4xx
+ */
+export class RequestValidationError extends Error {
+  status: number;
+  code: ValidationErrorCode;
+  field?: string;
+
+  constructor(code: ValidationErrorCode, message: string, field?: string, status = 400) {
+    super(message);
+    this.name = 'RequestValidationError';
+    this.code = code;
+    this.field = field;
+    this.status = status;
+  }
+}
+
+export type ReplicateRequest =
+  | {
+      action: 'create';
+      version: string;
+      input: GenerationInput;
+      sessionId?: string; // Session to bill; jobs are only run by /api/jobs
+    }
+  | { action: 'get'; predictionId: string; sessionId?: string } // Session to bill
+  | { action: 'cancel'; predictionId?: string; sessionId?: string; jobId?: string };
+
+// Replicate prediction IDs are lowercase alphanumeric; anything else could
+// change the upstream URL they are inserted into
+const PREDICTION_ID_PATTERN = /^[a-z0-9]+$/;
+
+// Firestore document IDs can't contain slashes
+const DOCUMENT_ID_PATTERN = /^[^/]{1,1500}$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalDocumentId(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !DOCUMENT_ID_PATTERN.test(value)) {
+    throw new RequestValidationError('invalid_field', `${field} must be a document ID`, field);
+  }
+  return value;
+}
+
+function predictionIdField(body: Record<string, unknown>, required: boolean): string | undefined {
+  const value = body.predictionId;
+  if (value === undefined || value === null || value === '') {
+    if (required) {
+      throw new RequestValidationError(
+        'missing_field',
+        'Prediction ID is required',
+        'predictionId'
+      );
+    }
+    return undefined;
+  }
+  if (typeof value !== 'string' || !PREDICTION_ID_PATTERN.test(value)) {
+    throw new RequestValidationError(
+      'invalid_field',
+      'Prediction ID is not valid',
+      'predictionId'
+    );
+  }
+  return value;
+}
+
+/**
+ * Whether a URL points at a file in the given Firebase Storage bucket
+ */
+export function isOwnStorageUrl(value: string, bucket: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || !bucket) {
+    return false;
+  }
+  // Download URLs from the Firebase SDKs
+  if (url.hostname === 'firebasestorage.googleapis.com') {
+    return url.pathname.startsWith(`/v0/b/${bucket}/o/`);
+  }
+  // Public Cloud Storage URLs
+  if (url.hostname === 'storage.googleapis.com') {
+    return url.pathname.startsWith(`/${bucket}/`);
+  }
+  return false;
+}
+
+function validateInputField(
+  field: string,
+  rule: InputFieldRule,
+  value: unknown,
+  bucket: string
+): unknown {
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new RequestValidationError('invalid_field', `${field} must be a string`, field);
+      }
+      if (rule.required && !value.trim()) {
+        throw new RequestValidationError('missing_field', `${field} is required`, field);
+      }
+      if (rule.maxLength && value.length > rule.maxLength) {
+        throw new RequestValidationError(
+          'invalid_field',
+          `${field} must be at most ${rule.maxLength} characters`,
+          field
+        );
+      }
+      if (rule.options && !rule.options.includes(value)) {
+        throw new RequestValidationError(
+          'invalid_field',
+          `${field} must be one of: ${rule.options.join(', ')}`,
+          field
+        );
+      }
+      return value;
+
+    case 'integer':
+      if (!Number.isInteger(value) || (value as number) < rule.min || (value as number) > rule.max) {
+        throw new RequestValidationError(
+          'invalid_field',
+          `${field} must be a whole number between ${rule.min} and ${rule.max}`,
+          field
+        );
+      }
+      return value;
+
+    case 'image':
+      if (typeof value !== 'string') {
+        throw new RequestValidationError('invalid_field', `${field} must be an image URL`, field);
+      }
+      if (!isOwnStorageUrl(value, bucket)) {
+        throw new RequestValidationError(
+          'image_not_allowed',
+          'Images must come from this app\'s Firebase Storage bucket',
+          field,
+          403
+        );
+      }
+      return value;
+
+    case 'imageList': {
+      // A single URL is accepted and sent on as a one-item list
+      const urls = typeof value === 'string' ? [value] : value;
+      if (!Array.isArray(urls) || urls.some((url) => typeof url !== 'string')) {
+        throw new RequestValidationError(
+          'invalid_field',
+          `${field} must be a list of image URLs`,
+          field
+        );
+      }
+      if (rule.required && urls.length === 0) {
+        throw new RequestValidationError('missing_field', `${field} is required`, field);
+      }
+      if (urls.length > rule.maxItems) {
+        throw new RequestValidationError(
+          'invalid_field',
+          `${field} accepts at most ${rule.maxItems} images`,
+          field
+        );
+      }
+      if (!urls.every((url) => isOwnStorageUrl(url, bucket))) {
+        throw new RequestValidationError(
+          'image_not_allowed',
+          'Images must come from this app\'s Firebase Storage bucket',
+          field,
+          403
+        );
+      }
+      return urls;
+    }
+  }
+}
+
+function validateCreateRequest(
+  body: Record<string, unknown>,
+  bucket: string
+): ReplicateRequest {
+  const { version, input } = body;
+  if (typeof version !== 'string' || !version) {
+    throw new RequestValidationError('missing_field', 'Model version is required', 'version');
+  }
+
+  const model = getModelByVersion(version);
+  if (!model) {
+    throw new RequestValidationError(
+      'model_not_allowed',
+      'This model version is not allowed',
+      'version',
+      403
+    );
+  }
+
+  if (!isPlainObject(input)) {
+    throw new RequestValidationError('invalid_field', 'Input must be an object', 'input');
+  }
+
+  const unknownField = Object.keys(input).find((field) => !(field in model.inputs));
+  if (unknownField) {
+    throw new RequestValidationError(
+      'input_not_allowed',
+      `Input field "${unknownField}" is not allowed for ${model.name}`,
+      `input.${unknownField}`
+    );
+  }
+
+  const validatedInput: Record<string, unknown> = {};
+  for (const [field, rule] of Object.entries(model.inputs)) {
+    const value = input[field];
+    if (value === undefined || value === null) {
+      if ('required' in rule && rule.required) {
+        throw new RequestValidationError(
+          'missing_field',
+          `${field} is required`,
+          `input.${field}`
+        );
+      }
+      continue;
+    }
+
+    try {
+      validatedInput[field] = validateInputField(field, rule, value, bucket);
+    } catch (err) {
+      if (err instanceof RequestValidationError) {
+        err.field = `input.${field}`;
+      }
+      throw err;
+    }
+  }
+
+  return {
+    action: 'create',
+    version,
+    input: validatedInput as GenerationInput,
+    sessionId: optionalDocumentId(body, 'sessionId'),
+  };
+}
+
+/**
+ * Checks operator-chosen model settings (see MODEL_SETTING_FIELDS) against
+ * what the model accepts. Throws a RequestValidationError on the first problem.
+ */
+export function validateModelSettings(model: ModelDefinition, settings: unknown): ModelSettings {
+  if (settings === undefined || settings === null) {
+    return {};
+  }
+  if (!isPlainObject(settings)) {
+    throw new RequestValidationError('invalid_field', 'Settings must be an object', 'settings');
+  }
+
+  const validated: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(settings)) {
+    const rule = model.inputs[field];
+    if (!rule || !(MODEL_SETTING_FIELDS as readonly string[]).includes(field)) {
+      throw new RequestValidationError(
+        'input_not_allowed',
+        `Setting "${field}" is not allowed for ${model.name}`,
+        `settings.${field}`
+      );
+    }
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    try {
+      validated[field] = validateInputField(field, rule, value, '');
+    } catch (err) {
+      if (err instanceof RequestValidationError) {
+        err.field = `settings.${field}`;
+      }
+      throw err;
+    }
+  }
+  return validated as ModelSettings;
+}
+
+/**
+ * Checks a /api/replicate request body against the model allowlist.
+ * Throws a RequestValidationError describing the first problem found.
+ */
+export function validateReplicateRequest(body: unknown, bucket: string): ReplicateRequest {
+  if (!isPlainObject(body)) {
+    throw new RequestValidationError('invalid_body', 'Request body must be a JSON object');
+  }
+
+  switch (body.action) {
+    case 'create':
+      return validateCreateRequest(body, bucket);
+
+    case 'get':
+      return {
+        action: 'get',
+        predictionId: predictionIdField(body, true)!,
+        sessionId: optionalDocumentId(body, 'sessionId'),
+      };
+
+    case 'cancel':
+      return {
+        action: 'cancel',
+        predictionId: predictionIdField(body, false),
+        sessionId: optionalDocumentId(body, 'sessionId'),
+        jobId: optionalDocumentId(body, 'jobId'),
+      };
+
+    default:
+      throw new RequestValidationError(
+        'invalid_action',
+        'Invalid action. Use "create", "get" or "cancel"',
+        'action'
+      );
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Display transforms of published outputs (see PhotoTransform). The same
+ * geometry is used by the dashboard, the collage and the download route.
+ */
+
+import type { CropRect, PhotoTransform } from '@/types';
+
+export const IDENTITY_TRANSFORM: PhotoTransform = { rotation: 0, flip: false };
+
+// Crops smaller than this (as a fraction of a side) are treated as mistakes
+const MIN_CROP_SIZE = 0.05;
+
+export interface CropAspect {
+  id: string;
+  label: string;
+  ratio: number | null; // Width / height of the result; null keeps the whole image
+}
+
+export const CROP_ASPECTS: CropAspect[] = [
+  { id: 'original', label: 'Original', ratio: null },
+  { id: 'square', label: '1:1', ratio: 1 },
+  { id: 'portrait', label: '4:5', ratio: 4 / 5 },
+  { id: 'story', label: '9:16', ratio: 9 / 16 },
+  { id: 'landscape', label: '16:9', ratio: 16 / 9 },
+];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function normalizeCrop(value: unknown): CropRect | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const { x, y, width, height } = value as Record<string, unknown>;
+  if (![x, y, width, height].every((part) => typeof part === 'number' && Number.isFinite(part))) {
+    return undefined;
+  }
+
+  const cropX = clamp(x as number, 0, 1 - MIN_CROP_SIZE);
+  const cropY = clamp(y as number, 0, 1 - MIN_CROP_SIZE);
+  const crop = {
+    x: cropX,
+    y: cropY,
+    width: clamp(width as number, MIN_CROP_SIZE, 1 - cropX),
+    height: clamp(height as number, MIN_CROP_SIZE, 1 - cropY),
+  };
+  // The whole image needs no crop
+  return crop.width >= 1 && crop.height >= 1 ? undefined : crop;
+}
+
+/**
+ * Validates a transform read from Firestore or a request. Returns undefined
+ * when there is nothing to apply.
+ */
+export function normalizeTransform(value: unknown): PhotoTransform | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+  const { rotation, flip, crop } = value as Record<string, unknown>;
+  const transform: PhotoTransform = {
+    rotation: rotation === 90 || rotation === 180 || rotation === 270 ? rotation : 0,
+    flip: flip === true,
+  };
+  const normalizedCrop = normalizeCrop(crop);
+  if (normalizedCrop) {
+    transform.crop = normalizedCrop;
+  }
+  return isIdentityTransform(transform) ? undefined : transform;
+}
+
+export function isIdentityTransform(transform?: PhotoTransform): boolean {
+  return !transform || (transform.rotation === 0 && !transform.flip && !transform.crop);
+}
+
+/**
+ * Turns the shown image a further 90° clockwise or counterclockwise
+ */
+export function rotateTransform(transform: PhotoTransform, degrees: 90 | -90): PhotoTransform {
+  return {
+    ...transform,
+    rotation: ((transform.rotation + degrees + 360) % 360) as PhotoTransform['rotation'],
+  };
+}
+
+/**
+ * Mirrors the shown image left to right. The mirror is applied before the
+ * rotation, so a rotated image mirrors around the other axis and rotates
+ * the other way.
+ */
+export function mirrorTransform(transform: PhotoTransform): PhotoTransform {
+  return {
+    ...transform,
+    rotation: ((360 - transform.rotation) % 360) as PhotoTransform['rotation'],
+    flip: !transform.flip,
+  };
+}
+
+/**
+ * Crop rectangle in pixels of an image of the given size
+ */
+export function getCropPixels(
+  crop: CropRect | undefined,
+  width: number,
+  height: number
+): { left: number; top: number; width: number; height: number } {
+  if (!crop) {
+    return { left: 0, top: 0, width, height };
+  }
+  const left = clamp(Math.round(crop.x * width), 0, width - 1);
+  const top = clamp(Math.round(crop.y * height), 0, height - 1);
+  return {
+    left,
+    top,
+    width: clamp(Math.round(crop.width * width), 1, width - left),
+    height: clamp(Math.round(crop.height * height), 1, height - top),
+  };
+}
+
+/**
+ * Size of the transformed image, and the SVG transform that draws an image
+ * of the given size that way
+ */
+export function getTransformGeometry(
+  transform: PhotoTransform,
+  width: number,
+  height: number
+): { width: number; height: number; svgTransform: string } {
+  const crop = getCropPixels(transform.crop, width, height);
+  const sideways = transform.rotation === 90 || transform.rotation === 270;
+
+  // SVG applies the last listed transform first
+  const rotate = {
+    0: '',
+    90: `translate(${crop.height} 0) rotate(90)`,
+    180: `translate(${crop.width} ${crop.height}) rotate(180)`,
+    270: `translate(0 ${crop.width}) rotate(270)`,
+  }[transform.rotation];
+  const mirror = transform.flip ? `translate(${crop.width} 0) scale(-1 1)` : '';
+  const move = `translate(${-crop.left} ${-crop.top})`;
+
+  return {
+    width: sideways ? crop.height : crop.width,
+    height: sideways ? crop.width : crop.height,
+    svgTransform: [rotate, mirror, move].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * Largest centered crop of an image with the given aspect ratio once the
+ * transform's rotation is applied; undefined when no crop is needed
+ */
+export function getCenteredCrop(
+  ratio: number | null,
+  transform: PhotoTransform,
+  width: number,
+  height: number
+): CropRect | undefined {
+  if (!ratio) {
+    return undefined;
+  }
+  // A sideways result swaps the stored image's width and height
+  const sourceRatio =
+    transform.rotation === 90 || transform.rotation === 270 ? 1 / ratio : ratio;
+  const imageRatio = width / height;
+  if (Math.abs(imageRatio - sourceRatio) < 0.01) {
+    return undefined;
+  }
+
+  const cropWidth = imageRatio > sourceRatio ? sourceRatio / imageRatio : 1;
+  const cropHeight = imageRatio > sourceRatio ? 1 : imageRatio / sourceRatio;
+  return {
+    x: (1 - cropWidth) / 2,
+    y: (1 - cropHeight) / 2,
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+/**
+ * Moves a crop by a fraction of the image, keeping it inside the image
+ */
+export function moveCrop(crop: CropRect, dx: number, dy: number): CropRect {
+  return {
+    ...crop,
+    x: clamp(crop.x + dx, 0, 1 - crop.width),
+    y: clamp(crop.y + dy, 0, 1 - crop.height),
+  };
+}
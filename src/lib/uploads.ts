@@ -0,0 +1,81 @@
+import { ref, uploadBytesResumable, getDownloadURL, UploadTask } from 'firebase/storage';
+import { storage } from '@/lib/firebase';
+import { getImageExtension } from '@/lib/imageUtils';
+
+export interface InputUpload {
+  task: UploadTask; // Pause and resume it when the connection drops
+  done: Promise<{ url: string; storagePath: string }>;
+}
+
+// A photo this device uploaded, remembered across page reloads
+export interface DeviceUpload {
+  photoId: string;
+  name: string; // Original file name
+  url: string;
+  uploadedAt: number;
+}
+
+/**
+ * Starts a resumable upload of a photo to the session's input folder.
+ * Firebase sends it in chunks and retries dropped chunks itself.
+ */
+export function uploadInputPhoto(
+  sessionId: string,
+  file: Blob,
+  onProgress: (fraction: number) => void
+): InputUpload {
+  // Several files can start in the same millisecond
+  const suffix = Math.random().toString(36).substring(2, 8);
+  const extension = getImageExtension(file.type);
+  const storageRef = ref(
+    storage,
+    `stant_images/input/${sessionId}/${Date.now()}_${suffix}.${extension}`
+  );
+  const task = uploadBytesResumable(storageRef, file, { contentType: file.type });
+
+  const done = new Promise<{ url: string; storagePath: string }>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      (snapshot) => {
+        onProgress(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0);
+      },
+      reject,
+      async () => {
+        try {
+          resolve({ url: await getDownloadURL(storageRef), storagePath: storageRef.fullPath });
+        } catch (err) {
+          reject(err);
+        }
+      }
+    );
+  });
+
+  return { task, done };
+}
+
+function deviceUploadsKey(sessionId: string): string {
+  return `deviceUploads:${sessionId}`;
+}
+
+/**
+ * Photos this device uploaded to the session, newest first
+ */
+export function loadDeviceUploads(sessionId: string): DeviceUpload[] {
+  try {
+    const stored = localStorage.getItem(deviceUploadsKey(sessionId));
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveDeviceUpload(sessionId: string, upload: DeviceUpload): DeviceUpload[] {
+  const uploads = [upload, ...loadDeviceUploads(sessionId)];
+  try {
+    localStorage.setItem(deviceUploadsKey(sessionId), JSON.stringify(uploads));
+  } catch (err) {
+    // Private browsing or a full quota: the upload itself still worked
+    console.error('Failed to remember upload:', err);
+  }
+  return uploads;
+}
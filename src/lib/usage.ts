@@ -0,0 +1,48 @@
+import { Timestamp, DocumentData } from 'firebase/firestore';
+import type { PredictionUsage, UsageTotals } from '@/types';
+
+/**
+ * Reads the usage totals kept on a session or usageDays document
+ */
+export function toUsageTotals(data: DocumentData | undefined): UsageTotals {
+  return {
+    predictions: Number(data?.predictions) || 0,
+    predictTime: Number(data?.predictTime) || 0,
+    estimatedCost: Number(data?.estimatedCost) || 0,
+  };
+}
+
+/**
+ * Maps a usage document to a PredictionUsage
+ */
+export function toPredictionUsage(id: string, data: DocumentData): PredictionUsage {
+  return {
+    id,
+    sessionId: data.sessionId,
+    jobId: data.jobId,
+    modelId: data.modelId,
+    modelVersion: data.modelVersion,
+    status: data.status,
+    predictTime: Number(data.predictTime) || 0,
+    outputCount: Number(data.outputCount) || 0,
+    estimatedCost: Number(data.estimatedCost) || 0,
+    day: data.day,
+    createdAt:
+      data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+  };
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(2)}`;
+}
+
+// Model run time, e.g. "42s" or "12m 5s"
+export function formatPredictTime(seconds: number): string {
+  const rounded = Math.round(seconds);
+  if (rounded < 60) {
+    return `${rounded}s`;
+  }
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${rounded % 60}s`;
+}
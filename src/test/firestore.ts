@@ -0,0 +1,262 @@
+/**
+ * In-memory stand-ins for the Firebase Admin SDK, enough for the server
+ * modules under test. Documents live in a Map keyed by their full path.
+ */
+
+type Data = Record<string, any>;
+
+class Sentinel {
+  constructor(
+    readonly kind: 'serverTimestamp' | 'increment' | 'delete',
+    readonly amount = 0
+  ) {}
+}
+
+export const FieldValue = {
+  serverTimestamp: () => new Sentinel('serverTimestamp'),
+  increment: (amount: number) => new Sentinel('increment', amount),
+  delete: () => new Sentinel('delete'),
+};
+
+// Kept as is when stored, e.g. for an updatedAt older than the test clock
+export class Timestamp {
+  private constructor(private readonly millis: number) {}
+
+  static fromMillis(millis: number) {
+    return new Timestamp(millis);
+  }
+
+  toMillis() {
+    return this.millis;
+  }
+}
+
+let autoId = 0;
+
+function isPlainObject(value: unknown): value is Data {
+  return !!value && typeof value === 'object' && value.constructor === Object;
+}
+
+// Writes one value over the current one, resolving sentinels
+function resolveValue(current: unknown, value: unknown, merge: boolean): unknown {
+  if (value instanceof Sentinel) {
+    if (value.kind === 'serverTimestamp') return new Date();
+    if (value.kind === 'increment') return (Number(current) || 0) + value.amount;
+    return undefined;
+  }
+  if (merge && isPlainObject(value)) {
+    return applyFields(isPlainObject(current) ? current : {}, value, true);
+  }
+  if (isPlainObject(value)) {
+    return applyFields({}, value, false);
+  }
+  return value;
+}
+
+function applyFields(target: Data, fields: Data, merge: boolean): Data {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(fields)) {
+    const resolved = resolveValue(result[key], value, merge);
+    if (resolved === undefined) {
+      delete result[key];
+    } else {
+      result[key] = resolved;
+    }
+  }
+  return result;
+}
+
+// update() takes dotted paths ("usage.estimatedCost")
+function applyUpdate(target: Data, fields: Data): Data {
+  let result = { ...target };
+  for (const [key, value] of Object.entries(fields)) {
+    const [head, ...rest] = key.split('.');
+    if (rest.length === 0) {
+      result = applyFields(result, { [head]: value }, false);
+    } else {
+      const child = isPlainObject(result[head]) ? result[head] : {};
+      result[head] = applyUpdate(child, { [rest.join('.')]: value });
+    }
+  }
+  return result;
+}
+
+export class FakeFirestore {
+  readonly docs = new Map<string, Data>();
+
+  collection(path: string) {
+    return new FakeCollection(this, path);
+  }
+
+  doc(path: string) {
+    return new FakeDocRef(this, path);
+  }
+
+  private lastTransaction: Promise<unknown> = Promise.resolve();
+
+  // Runs transactions one at a time, as Firestore's retries would order them
+  runTransaction<T>(callback: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    const result = this.lastTransaction.then(() => callback(new FakeTransaction()));
+    this.lastTransaction = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Documents directly inside a collection, e.g. "sessions/s1/aiResponses"
+   */
+  list(collectionPath: string): Array<{ id: string; data: Data }> {
+    const depth = collectionPath.split('/').length + 1;
+    return Array.from(this.docs.entries())
+      .filter(([path]) => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .map(([path, data]) => ({ id: path.split('/').pop()!, data }));
+  }
+
+  get(path: string): Data | undefined {
+    return this.docs.get(path);
+  }
+
+  set(path: string, data: Data): void {
+    this.docs.set(path, applyFields({}, data, false));
+  }
+}
+
+class FakeSnapshot {
+  constructor(
+    readonly id: string,
+    private readonly value: Data | undefined
+  ) {}
+
+  get exists() {
+    return this.value !== undefined;
+  }
+
+  data() {
+    return this.value && structuredClone(this.value);
+  }
+
+  get(field: string) {
+    return field.split('.').reduce<any>((current, key) => current?.[key], this.value);
+  }
+}
+
+class FakeDocRef {
+  constructor(
+    private readonly db: FakeFirestore,
+    readonly path: string
+  ) {}
+
+  get id() {
+    return this.path.split('/').pop()!;
+  }
+
+  collection(name: string) {
+    return new FakeCollection(this.db, `${this.path}/${name}`);
+  }
+
+  async get() {
+    return new FakeSnapshot(this.id, this.db.docs.get(this.path));
+  }
+
+  async set(data: Data, options?: { merge?: boolean }) {
+    const current = options?.merge ? this.db.docs.get(this.path) ?? {} : {};
+    this.db.docs.set(this.path, applyFields(current, data, !!options?.merge));
+  }
+
+  async update(data: Data) {
+    const current = this.db.docs.get(this.path);
+    if (!current) {
+      throw new Error(`No document to update: ${this.path}`);
+    }
+    this.db.docs.set(this.path, applyUpdate(current, data));
+  }
+
+  async delete() {
+    this.db.docs.delete(this.path);
+  }
+}
+
+class FakeCollection {
+  constructor(
+    private readonly db: FakeFirestore,
+    readonly path: string
+  ) {}
+
+  doc(id = `auto_${++autoId}`) {
+    return new FakeDocRef(this.db, `${this.path}/${id}`);
+  }
+
+  async add(data: Data) {
+    const ref = this.doc();
+    await ref.set(data);
+    return ref;
+  }
+
+  // Equality, "in" and "array-contains" filters only
+  where(field: string, op: '==' | 'in' | 'array-contains', value: unknown) {
+    const matches = (fieldValue: unknown) => {
+      if (op === 'in') return (value as unknown[]).includes(fieldValue);
+      if (op === 'array-contains') return Array.isArray(fieldValue) && fieldValue.includes(value);
+      return fieldValue === value;
+    };
+    return {
+      get: async () => {
+        const docs = this.db
+          .list(this.path)
+          .filter(({ data }) => matches(data[field]))
+          .map(({ id, data }) => Object.assign(new FakeSnapshot(id, data), { ref: this.doc(id) }));
+        return { docs, empty: docs.length === 0, size: docs.length };
+      },
+    };
+  }
+}
+
+class FakeTransaction {
+  // Document references and queries
+  get<T>(ref: { get(): Promise<T> }) {
+    return ref.get();
+  }
+
+  set(ref: FakeDocRef, data: Data, options?: { merge?: boolean }) {
+    void ref.set(data, options);
+    return this;
+  }
+
+  update(ref: FakeDocRef, data: Data) {
+    void ref.update(data);
+    return this;
+  }
+}
+
+/**
+ * Storage bucket keeping file contents in memory
+ */
+export class FakeBucket {
+  readonly name = 'test-bucket.appspot.com';
+  readonly files = new Map<string, { data: Buffer; contentType?: string }>();
+
+  file(path: string) {
+    const files = this.files;
+    return {
+      name: path,
+      async save(data: Buffer, options?: { contentType?: string }) {
+        files.set(path, { data, contentType: options?.contentType });
+      },
+      async download(): Promise<[Buffer]> {
+        const file = files.get(path);
+        if (!file) {
+          throw new Error(`No such object: ${path}`);
+        }
+        return [file.data];
+      },
+      async delete() {
+        files.delete(path);
+      },
+    };
+  }
+}
+
+export function getDownloadURL(file: { name: string }): Promise<string> {
+  return Promise.resolve(
+    `https://firebasestorage.googleapis.com/v0/b/test-bucket.appspot.com/o/${encodeURIComponent(file.name)}?alt=media`
+  );
+}
@@ -1,11 +1,68 @@
+export interface AIOutputVariant {
+  url: string;
+  storagePath: string;
+}
+
+export interface PhotoMask {
+  url: string; // PNG, white where the model may change the image
+  storagePath: string;
+  responseId?: string; // Set when painted on an output: that output is edited
+}
+
+// Rectangle as fractions (0-1) of an image's width and height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Non-destructive edit of the published output, applied wherever it is shown
+// or downloaded: crop, then mirror left to right, then rotate clockwise
+export interface PhotoTransform {
+  rotation: 0 | 90 | 180 | 270;
+  flip: boolean;
+  crop?: CropRect; // Of the stored output, before mirroring and rotating
+}
+
 export interface Photo {
   id: string;
   url: string;
   storagePath?: string;
   uploadedAt: Date;
-  aiOutputUrl?: string; // URL of the AI processed image
+  aiOutputUrl?: string; // URL of the AI processed image (the published variant)
   aiOutputStoragePath?: string; // Storage path of AI output
+  aiVariants?: AIOutputVariant[]; // All variants of the published generation
+  aiResponseId?: string; // aiResponses entry the published output comes from
   aiProcessedAt?: Date;
+  sourcePhotoIds?: string[]; // Set on composites: the photos combined, in order
+  mask?: PhotoMask; // Region to edit, for models that support inpainting
+  outputTransform?: PhotoTransform; // Rotation, mirroring and crop of the output
+  autoJobId?: string; // Job auto mode started when the photo was uploaded
+}
+
+// Rewrites of a photo's stored input file, done by an operator
+export type PhotoTransformOperation =
+  | 'rotate_left'
+  | 'rotate_right'
+  | 'flip_horizontal'
+  | 'flip_vertical';
+
+export type GenerationErrorType =
+  | 'rate_limited'
+  | 'invalid_input'
+  | 'model_failure'
+  | 'nsfw'
+  | 'timeout'
+  | 'network'
+  | 'budget_exceeded'
+  | 'unknown';
+
+export interface ModerationRecord {
+  stage: 'prompt' | 'output'; // Refused before generating, or held after
+  reason: string;
+  rule?: string; // Rule or blocklist term that matched
+  classifier?: string; // Output classifier that flagged the image
 }
 
 export interface AIResponse {
@@ -16,14 +73,147 @@ export interface AIResponse {
   responseJson?: any;
   outputImageUrl?: string; // AI generated/processed image URL
   outputImageStoragePath?: string; // Storage path in stant_images/ai
-  status: 'processing' | 'succeeded' | 'failed';
+  outputs?: AIOutputVariant[]; // Every variant produced by the run
+  // review: flagged output waiting for an operator; rejected: refused by moderation
+  status: 'processing' | 'succeeded' | 'failed' | 'canceled' | 'review' | 'rejected';
+  error?: string;
+  errorType?: GenerationErrorType; // Set on failed attempts
+  moderation?: ModerationRecord; // Why the attempt was held or rejected
+  presetId?: string; // Preset the prompt was rendered from
+  presetVersion?: number; // Preset version at generation time
+  modelId?: string; // Model the attempt ran on (see lib/models)
+  modelVersion?: string;
+  settings?: ModelSettings; // Exact model settings used, to reproduce the result
+  parentResponseId?: string; // Attempt whose output this one refined
+  maskUrl?: string; // Mask limiting the edit to a region
+  comparisonId?: string; // Comparison run this attempt belongs to
+  comparisonEntry?: number; // Index of its entry in that comparison
+  createdAt: Date;
+}
+
+export type GenerationJobStatus =
+  | 'queued'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface GenerationJob {
+  id: string;
+  photoId: string;
+  prompt: string;
+  presetId?: string;
+  presetVersion?: number;
+  modelId?: string;
+  modelVersion?: string;
+  settings?: ModelSettings; // Model settings the job runs with
+  parentResponseId?: string; // Set when refining an earlier output
+  inputImageUrl?: string; // The refined output, used instead of the photo
+  maskUrl?: string; // Region to edit, for models that support inpainting
+  variantCount?: number; // Number of variants requested
+  priority?: number; // Higher runs first; bumped by operators
+  auto?: boolean; // Started by auto mode, not by an operator
+  comparisonId?: string; // Part of an A/B comparison; not published on the photo
+  comparisonEntry?: number;
+  status: GenerationJobStatus;
+  predictionId?: string; // Replicate prediction driving this job
+  predictionStatus?: string; // Last status reported by Replicate
+  progress?: GenerationProgress; // Parsed from the prediction logs
+  logs?: string; // Tail of the prediction logs
+  expectedPredictTime?: number; // Seconds the model usually runs, for the ETA
+  completing?: boolean; // Output being copied; later deliveries are ignored
+  outputImageUrl?: string;
+  outputImageStoragePath?: string;
+  error?: string;
+  errorType?: GenerationErrorType;
+  reviewReason?: string; // Output held for review instead of being published
+  createdAt: Date;
+  startedAt?: Date; // Claimed from the queue
+  updatedAt?: Date;
+  completedAt?: Date;
+}
+
+// Progress a model reports in its logs, e.g. a tqdm bar or "step 9/20"
+export interface GenerationProgress {
+  percent: number; // 0-100
+  step?: number;
+  totalSteps?: number;
+}
+
+// One prompt/model/settings combination in a comparison
+export interface ComparisonEntry extends ModelSelection {
+  label: string; // e.g. "A", shown on the grid
+  prompt: string;
+  presetId?: string;
+  jobId?: string; // Unset if the entry couldn't be started
   error?: string;
+}
+
+// Several generations of the same photo, run side by side to tune presets
+export interface Comparison {
+  id: string;
+  photoId: string;
+  entries: ComparisonEntry[];
   createdAt: Date;
 }
 
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string; // Prompt with {variable} placeholders, e.g. {gender}
+  thumbnailUrl?: string; // Example output shown in the picker
+  thumbnailStoragePath?: string;
+  settings?: Partial<ReplicateModelInput>; // Optional model settings
+  modelId?: string; // Model the settings were chosen for; selected with the preset
+  version: number; // Incremented on every edit
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
 export interface Session {
   id: string;
   createdAt: Date;
+  modelDefaults?: ModelSelection; // Settings new cards start with
+  autoProcess?: AutoProcessConfig;
+  usage?: UsageTotals; // Every prediction the session ran
+  budgetUsd?: number; // Overrides SESSION_BUDGET_USD for this session
+}
+
+// Running totals, kept per session and per day (usageDays collection)
+export interface UsageTotals {
+  predictions: number;
+  predictTime: number; // Seconds of model run time
+  estimatedCost: number; // USD, see estimatePredictionCost
+}
+
+// One finished prediction (usage collection, keyed by prediction ID)
+export interface PredictionUsage {
+  id: string;
+  sessionId?: string;
+  jobId?: string;
+  modelId?: string;
+  modelVersion?: string;
+  status: string;
+  predictTime: number;
+  outputCount: number;
+  estimatedCost: number;
+  day: string; // YYYY-MM-DD in USAGE_TIMEZONE
+  createdAt: Date;
+}
+
+// Generation the server runs on every photo uploaded while auto mode is on
+export interface AutoProcessConfig extends ModelSelection {
+  enabled: boolean;
+  prompt: string;
+  presetId?: string; // Preset the prompt was rendered from
+}
+
+// Provider-agnostic generation input; each provider maps it to its own model input
+export interface GenerationInput {
+  prompt: string;
+  image: string[]; // Array of image URLs
+  mask?: string; // Inpainting mask URL, white where the image may change
+  [key: string]: any;
 }
 
 export interface ReplicateModelInput {
@@ -35,4 +225,13 @@ export interface ReplicateModelInput {
   image: string[]; // Array of image URLs
   aspect_ratio: string;
   sequential_image_generation: string;
+  seed: number;
+}
+
+// Operator-chosen model input, everything except the prompt and images
+export type ModelSettings = Partial<Omit<ReplicateModelInput, 'prompt' | 'image'>>;
+
+export interface ModelSelection {
+  modelId: string;
+  settings: ModelSettings;
 }
@@ -0,0 +1,21 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Read by modules when they load (model versions, webhook secret)
+    env: {
+      NEXT_PUBLIC_REPLICATE_MODEL_VERSION: 'seedream-test-version',
+      NEXT_PUBLIC_REPLICATE_INPAINT_MODEL_VERSION: 'flux-fill-test-version',
+      REPLICATE_WEBHOOK_SECRET: 'whsec_dGVzdC13ZWJob29rLXNlY3JldC1mb3ItZml4dHVyZXM=',
+      GENERATION_PROVIDER: 'replicate',
+      OUTPUT_CLASSIFIER: 'none',
+    },
+  },
+});